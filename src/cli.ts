@@ -0,0 +1,69 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  ConfigurationParser,
+  MemoryManifestStore,
+  ModusThemeAnalyzer,
+  ThemeOrchestrationService,
+  VSCodeThemeFactory,
+  VSCodeThemeSerializer,
+  VSCodeThemeValidator
+} from './core';
+
+/** Usage text printed for missing or unexpected arguments */
+const USAGE = 'Usage: node out/cli.js <extension-root> <settings.json> <output-dir>';
+
+/**
+ * Generate the theme files outside the extension host
+ *
+ * Reads the "modus.*" entries of a VS Code settings file, comments allowed,
+ * and writes every theme to the output directory exactly as the extension
+ * would write it to its themes directory. No last-known-good copies are
+ * kept, so the output directory only receives the theme files.
+ *
+ * @param args - Command-line arguments after the script path
+ * @returns Process exit code
+ */
+async function main(args: string[]): Promise<number> {
+  if (args.length !== 3) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const [extensionRoot, settingsPath, outputDir] = args.map(arg => path.resolve(arg));
+
+  try {
+    const settings = JSON.parse(
+      ThemeOrchestrationService.stripJsonComments(await fs.readFile(settingsPath, 'utf8'))
+    ) as Record<string, unknown>;
+    const config = new ConfigurationParser().parse(key => settings[`modus.${key}`]);
+
+    const packageJson = JSON.parse(await fs.readFile(path.join(extensionRoot, 'package.json'), 'utf8'));
+    const analyzer = new ModusThemeAnalyzer();
+    const orchestrator = new ThemeOrchestrationService(
+      analyzer,
+      new VSCodeThemeFactory(analyzer),
+      new VSCodeThemeSerializer(),
+      new VSCodeThemeValidator(),
+      new MemoryManifestStore(),
+      packageJson.version,
+      outputDir,
+      false
+    );
+
+    const written = await orchestrator.generateAllThemes(extensionRoot, config, true);
+
+    for (const themeId of written) {
+      console.log(path.join(outputDir, `${themeId}-color-theme.json`));
+    }
+    console.log(`${written.length} theme file(s) written`);
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
@@ -0,0 +1,5491 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as fsSync from 'fs';
+import * as path from 'path';
+
+/**
+ * Theme type enumeration that categorizes themes by luminance characteristics
+ * @readonly
+ */
+export enum ThemeType {
+  LIGHT = 'light',
+  DARK = 'dark'
+}
+
+/**
+ * Token system enumeration that identifies which highlighting model a token
+ * mapping targets
+ * @readonly
+ */
+export enum TokenSystem {
+  SEMANTIC = 'semantic',
+  TEXTMATE = 'textMate'
+}
+
+/**
+ * Palette entry kind enumeration that classifies upstream palette values
+ * @readonly
+ */
+enum PaletteEntryKind {
+  HEX = 'hex',
+  SEMANTIC = 'semantic',
+  UNSPECIFIED = 'unspecified'
+}
+
+/**
+ * Palette preset enumeration mirroring the upstream preset overrides
+ * @readonly
+ */
+export enum PalettePreset {
+  NONE = 'none',
+  FAINT = 'faint',
+  INTENSE = 'intense',
+  WARMER = 'warmer',
+  COOLER = 'cooler'
+}
+
+/**
+ * Palette source enumeration identifying the merge layer that set an entry
+ * @readonly
+ */
+export enum PaletteSource {
+  UPSTREAM = 'upstream',
+  EXTENSION = 'extension',
+  VARIANT = 'variant',
+  PRESET = 'preset',
+  OVERRIDE = 'override'
+}
+
+/**
+ * Resolution step kind enumeration that classifies how a reference was
+ * resolved
+ * @readonly
+ */
+export enum ResolutionStepKind {
+  LITERAL = 'literal',
+  HEX = 'hex',
+  SEMANTIC = 'semantic',
+  VARIANT = 'variant',
+  OPACITY = 'opacity',
+  EXPRESSION = 'expression',
+  UNSPECIFIED = 'unspecified'
+}
+
+/**
+ * Terminal format enumeration that identifies the configuration file a
+ * terminal exporter writes
+ * @readonly
+ */
+export enum TerminalFormat {
+  ALACRITTY = 'alacritty',
+  KITTY = 'kitty',
+  WINDOWS_TERMINAL = 'windowsTerminal',
+  FOOT = 'foot',
+  XRESOURCES = 'xresources'
+}
+
+/**
+ * Color scheme format enumeration that identifies the editor color scheme
+ * file a color scheme serializer writes
+ * @readonly
+ */
+export enum ColorSchemeFormat {
+  TM_THEME = 'tmTheme',
+  SUBLIME_COLOR_SCHEME = 'sublimeColorScheme'
+}
+
+/**
+ * Base theme interface defining core properties that all theme variants must
+ * implement
+ */
+export interface ITheme {
+  /** Unique identifier for theme differentiation */
+  readonly id: string;
+
+  /** Human-readable display name */
+  readonly name: string;
+
+  /** Luminance classification */
+  readonly type: ThemeType;
+}
+
+/**
+ * Theme definition that extends the base theme with source metadata
+ */
+export interface IThemeDefinition extends ITheme {
+  /** Relative path to the source definition file */
+  readonly source: string;
+
+  /** User-facing descriptive text */
+  readonly description: string;
+}
+
+/**
+ * Base color specification interface
+ */
+export interface IColor {
+  /** Direct hexadecimal color values */
+  readonly hex: Record<string, string>;
+
+  /** Semantic color references that map to direct values */
+  readonly semantic: Record<string, string>;
+}
+
+/**
+ * Source position of a parsed element
+ */
+interface ISourceLocation {
+  /** One-based line number */
+  readonly line: number;
+
+  /** One-based column number */
+  readonly column: number;
+}
+
+/**
+ * Emacs Lisp expression produced by the s-expression reader
+ *
+ * Numbers are read as symbols since the palette never needs their value.
+ * Quote, backquote, comma and function shorthands are expanded to lists, so
+ * 'x reads as (quote x).
+ */
+type SExpression =
+  | { readonly kind: 'list'; readonly items: SExpression[]; readonly location: ISourceLocation }
+  | { readonly kind: 'vector'; readonly items: SExpression[]; readonly location: ISourceLocation }
+  | { readonly kind: 'symbol'; readonly name: string; readonly location: ISourceLocation }
+  | { readonly kind: 'string'; readonly value: string; readonly location: ISourceLocation }
+  | { readonly kind: 'character'; readonly value: string; readonly location: ISourceLocation };
+
+/**
+ * Parsed color expression
+ *
+ * References are palette names, hex values or "name@opacity" forms; amounts
+ * are fractions, with percentages already divided by 100.
+ */
+type ColorExpression =
+  | { readonly kind: 'reference'; readonly name: string }
+  | { readonly kind: 'amount'; readonly value: number; readonly text: string }
+  | {
+      readonly kind: 'call';
+      readonly name: string;
+      readonly args: ColorExpression[];
+      readonly opacity?: number;
+    };
+
+/**
+ * Token of a JSONC document
+ *
+ * Content offsets exclude the quotes of strings.
+ */
+interface IJsoncToken {
+  readonly type: 'string' | 'punctuation' | 'literal';
+  readonly text: string;
+  readonly start: number;
+  readonly end: number;
+  readonly contentStart: number;
+  readonly contentEnd: number;
+}
+
+/**
+ * Value read from a JSONC document
+ *
+ * Only objects and strings are kept; other values are read past.
+ */
+type JsoncNode =
+  | {
+      readonly kind: 'object';
+      readonly start: number;
+      readonly end: number;
+      readonly properties: Array<{ readonly key: IJsoncToken; readonly value?: JsoncNode }>;
+    }
+  | { readonly kind: 'string'; readonly token: IJsoncToken }
+  | { readonly kind: 'other' };
+
+/**
+ * Single step of a color resolution
+ */
+interface IColorResolutionStep {
+  /** Reference being resolved at this step */
+  readonly reference: string;
+
+  /** How the reference was resolved */
+  readonly kind: ResolutionStepKind;
+
+  /** Value the reference resolved to (next reference or final color) */
+  readonly value?: string;
+
+  /** Nesting depth, zero for the initial reference */
+  readonly depth: number;
+}
+
+/**
+ * Complete trace of a color resolution
+ */
+interface IColorResolutionTrace {
+  /** Initial reference */
+  readonly reference: string;
+
+  /** Final resolved color, undefined for unspecified colors */
+  readonly result?: string;
+
+  /** Resolution steps in the order they were entered */
+  readonly steps: IColorResolutionStep[];
+}
+
+/**
+ * String property located in a JSONC document
+ *
+ * Offsets delimit the string contents, excluding the quotes, so they can be
+ * used directly as edit and diagnostic ranges.
+ */
+export interface IJsoncEntry {
+  /** Enclosing object keys below the scanned object, outermost first */
+  readonly path: string[];
+
+  /** Raw key text */
+  readonly key: string;
+
+  /** Offset of the first key character */
+  readonly keyStart: number;
+
+  /** Offset just past the last key character */
+  readonly keyEnd: number;
+
+  /** Raw value text, absent while the value is being typed */
+  readonly value?: string;
+
+  /** Offset of the first value character */
+  readonly valueStart?: number;
+
+  /** Offset just past the last value character */
+  readonly valueEnd?: number;
+}
+
+/**
+ * Object located in a JSONC document
+ */
+interface IJsoncObject {
+  /** Offset of the opening brace */
+  readonly start: number;
+
+  /** Offset just past the closing brace, or the document end if unclosed */
+  readonly end: number;
+
+  /** String entries of the object, nested ones included */
+  readonly entries: IJsoncEntry[];
+
+  /** Object-valued entries of the object, nested ones included, without values */
+  readonly blocks: IJsoncEntry[];
+}
+
+/**
+ * Single entry of an upstream theme palette
+ */
+interface IPaletteEntry {
+  /** Color or mapping name */
+  readonly name: string;
+
+  /** Hex value, referenced color name, or "unspecified" */
+  readonly value: string;
+
+  /** Entry classification */
+  readonly kind: PaletteEntryKind;
+
+  /** One-based line number of the entry in the source file */
+  readonly line: number;
+}
+
+/**
+ * Color transformation service
+ */
+interface IColorTransformer {
+  /**
+   * Apply opacity to a hex color
+   *
+   * @param hex - Hex color string (with or without # prefix)
+   * @param opacity - Opacity value between 0 and 1
+   * @returns Hex color with alpha channel (#RRGGBBAA)
+   * @throws {ThemeProcessingError} If the hex color format is invalid
+   */
+  applyOpacity(hex: string, opacity: number): string;
+
+  /**
+   * Composite a possibly translucent color over an opaque background
+   *
+   * @param foreground - Hex color string (#RRGGBB or #RRGGBBAA)
+   * @param background - Opaque hex color string (#RRGGBB)
+   * @returns Opaque hex color (#RRGGBB) as it would appear on screen
+   * @throws {ThemeProcessingError} If either hex color format is invalid
+   */
+  composite(foreground: string, background: string): string;
+
+  /**
+   * Mix two colors channel by channel, alpha included
+   *
+   * @param first - Hex color string (#RRGGBB or #RRGGBBAA)
+   * @param second - Hex color string (#RRGGBB or #RRGGBBAA)
+   * @param weight - Proportion of the second color, between 0 and 1
+   * @returns Mixed hex color, with alpha only if either input has one
+   * @throws {ThemeProcessingError} If either hex color format is invalid
+   */
+  mix(first: string, second: string, weight: number): string;
+
+  /**
+   * Shift the HSL lightness of a color
+   *
+   * @param hex - Hex color string (#RRGGBB or #RRGGBBAA)
+   * @param amount - Lightness delta between -1 and 1
+   * @returns Adjusted hex color, preserving any alpha channel
+   * @throws {ThemeProcessingError} If the hex color format is invalid
+   */
+  adjustLightness(hex: string, amount: number): string;
+}
+
+/**
+ * Extended color palette with theme-specific variant support
+ */
+export interface IColorPalette extends IColor {
+  /** Theme-specific color overrides organized by theme identifier */
+  readonly variants?: Record<string, Record<string, string>>;
+
+  /** Theme the palette belongs to; only its variant block is consulted */
+  readonly themeId?: string;
+
+  /** Merge layer that last set each entry, present on merged palettes */
+  readonly origins?: Record<string, PaletteSource>;
+}
+
+/**
+ * Resolved token style attributes
+ */
+export interface ITokenStyle {
+  readonly foreground?: string;
+  readonly fontStyle?: string;
+  readonly background?: string;
+}
+
+/**
+ * Token styling specification
+ */
+interface IToken {
+  readonly style: string | ITokenStyle;
+}
+
+/**
+ * TextMate token specification
+ */
+interface ITextMateToken extends IToken {
+  /** TextMate scope selector pattern */
+  readonly scope: string | string[];
+}
+
+/**
+ * Semantic token specification
+ */
+interface ISemanticToken extends IToken {
+  /** Semantic token type identifier, or "*" to match any type */
+  readonly type: string;
+
+  /** Semantic token modifiers the rule is restricted to */
+  readonly modifiers: ReadonlyArray<string>;
+
+  /** Language the rule is restricted to */
+  readonly language?: string;
+
+  /** Normalized selector (format: "type.modifier:language") */
+  readonly selector: string;
+}
+
+/**
+ * Parsed semantic token selector
+ */
+interface ISemanticSelector {
+  /** Semantic token type identifier, or "*" to match any type */
+  readonly type: string;
+
+  /** Semantic token modifiers */
+  readonly modifiers: ReadonlyArray<string>;
+
+  /** Language qualifier */
+  readonly language?: string;
+}
+
+/**
+ * VS Code specific theme format
+ */
+interface IThemeVSC extends ITheme {
+  /** Editor color definitions for VS Code components */
+  readonly colors: Record<string, string>;
+
+  /** Token styling specifications organized by token system */
+  readonly tokens: {
+    readonly textMate: ITextMateToken[];
+    readonly semantic: ISemanticToken[];
+  };
+}
+
+/**
+ * Entry of the tokenColors array of a VS Code theme file
+ */
+export interface ITokenColorRule {
+  /** TextMate scope selectors the rule applies to */
+  readonly scope: string[];
+
+  /** Style applied to the matched scopes */
+  readonly settings: ITokenStyle;
+}
+
+/**
+ * Theme file contents in VS Code's color theme format
+ */
+export interface ISerializedTheme {
+  readonly $schema: string;
+  readonly name: string;
+  readonly type: ThemeType;
+  readonly colors: Record<string, string>;
+  readonly semanticHighlighting: boolean;
+  readonly tokenColors: ITokenColorRule[];
+  readonly semanticTokenColors: Record<string, string | ITokenStyle>;
+}
+
+/**
+ * Editor element to color mapping specification
+ */
+interface IEditorMapping {
+  /** Editor element identifier in the VS Code schema */
+  readonly element: string;
+
+  /** Color reference to be resolved against the palette */
+  readonly color: string;
+}
+
+/**
+ * Token to color mapping specification
+ */
+export interface ITokenMapping {
+  /** Token system the mapping belongs to */
+  readonly system: TokenSystem;
+
+  /** Token identification pattern */
+  readonly scopeOrType: string;
+
+  /** Color reference to be resolved against the palette */
+  readonly color: string;
+
+  /** Font style keywords (bold, italic, underline, strikethrough) */
+  readonly fontStyle?: string;
+
+  /** Background color reference to be resolved against the palette */
+  readonly background?: string;
+}
+
+/**
+ * Style object form of a token mapping leaf in modus-tokens.json
+ */
+interface ITokenMappingLeaf {
+  /** Color reference to be resolved against the palette */
+  readonly color?: string;
+
+  /** Font style keywords (bold, italic, underline, strikethrough) */
+  readonly fontStyle?: string;
+
+  /** Background color reference to be resolved against the palette */
+  readonly background?: string;
+}
+
+/**
+ * User configuration schema
+ */
+export interface IConfiguration {
+  /** User-defined color customizations */
+  readonly colorOverrides: Record<string, string>;
+
+  /**
+   * User-defined color customizations for some themes only, keyed by
+   * selector without brackets: a theme id, a theme type ("light", "dark")
+   * or a theme group ("tinted", "vivendi")
+   */
+  readonly themeOverrides: Record<string, Record<string, string>>;
+
+  /** Flag for experimental functionality */
+  readonly experimental: boolean;
+
+  /** Render keywords and builtins in bold */
+  readonly boldConstructs: boolean;
+
+  /** Render comments and docstrings in italics */
+  readonly italicConstructs: boolean;
+
+  /** Upstream preset palette overrides to apply */
+  readonly palettePreset: PalettePreset;
+
+  /** Mirror theme changes into the workbench customization settings */
+  readonly liveOverrides: boolean;
+
+  /** Problems with setting values that were ignored while parsing */
+  readonly warnings: string[];
+}
+
+/**
+ * Record of the last generation of each theme, keyed by theme id
+ */
+export interface IGenerationManifest {
+  readonly [themeId: string]: {
+    /** Hash of everything the theme file is generated from */
+    readonly inputs: string;
+
+    /** Hash of the theme file contents as written */
+    readonly output: string;
+  };
+}
+
+/**
+ * Cancellation signal checked by long-running operations
+ */
+export interface ICancellationToken {
+  /** Whether the operation should stop at its next checkpoint */
+  readonly isCancellationRequested: boolean;
+}
+
+/**
+ * Source of the configuration a regeneration runs with
+ */
+export interface IConfigurationSource {
+  /**
+   * Retrieve current configuration state
+   *
+   * @returns Current configuration values
+   */
+  retrieveConfiguration(): IConfiguration;
+}
+
+/**
+ * Request for a theme regeneration
+ */
+export interface IRegenerationRequest {
+  /** Synthesize every theme regardless of the manifest */
+  readonly force?: boolean;
+
+  /** Offer a window reload if theme files were written */
+  readonly prompt?: boolean;
+
+  /** Start without waiting for further requests to coalesce with */
+  readonly immediate?: boolean;
+}
+
+/**
+ * Outcome of a completed theme regeneration
+ */
+export interface IRegenerationResult {
+  /** Ids of the themes whose files were written */
+  readonly written: string[];
+
+  /** Configuration the themes were generated with */
+  readonly config: IConfiguration;
+
+  /** Whether any coalesced request asked for a reload prompt */
+  readonly prompt: boolean;
+}
+
+/**
+ * Persistence of the generation manifest across sessions
+ */
+export interface IManifestStore {
+  /**
+   * Load the stored manifest
+   *
+   * @returns Stored manifest, empty if none was stored
+   */
+  load(): IGenerationManifest;
+
+  /**
+   * Replace the stored manifest
+   *
+   * @param manifest - Manifest to store
+   * @returns Promise resolving when the manifest is stored
+   */
+  save(manifest: IGenerationManifest): Promise<void>;
+}
+
+/**
+ * Emacs Lisp palette parsing service
+ */
+interface IPaletteParser {
+  /**
+   * Parse the palette definition of a theme source
+   *
+   * @param content - Emacs Lisp source text
+   * @param fileName - Source file name for diagnostics and palette lookup
+   * @returns Palette entries in source order
+   * @throws {SourceParseError} If the source or palette form is malformed
+   */
+  parsePalette(content: string, fileName: string): IPaletteEntry[];
+
+  /**
+   * Parse a list of palette overrides bound to a variable
+   *
+   * @param content - Emacs Lisp source text
+   * @param fileName - Source file name for diagnostics
+   * @param variableName - Name of the variable holding the overrides
+   * @returns Override entries in source order
+   * @throws {SourceParseError} If the variable is missing or malformed
+   */
+  parseOverrides(content: string, fileName: string, variableName: string): IPaletteEntry[];
+}
+
+/**
+ * Configuration inputs shared by every generated theme
+ */
+interface IGenerationInputs {
+  /** Theme definitions from modus-themes.json */
+  readonly themeDefinitions: IThemeDefinition[];
+
+  /** Editor element mappings, including experimental ones when enabled */
+  readonly editorMappings: IEditorMapping[];
+
+  /** Token mappings from modus-tokens.json */
+  readonly tokenMappings: ITokenMapping[];
+
+  /** Palette extensions from modus-palette.json */
+  readonly extensions: IColorPalette;
+
+  /** Upstream preset overrides selected by the palettePreset setting */
+  readonly preset: Record<string, string>;
+}
+
+/**
+ * Intermediate result of synthesizing a single theme
+ */
+export interface IThemeSynthesis {
+  /** Theme definition metadata */
+  readonly definition: IThemeDefinition;
+
+  /** Merged color palette the theme was resolved against */
+  readonly palette: IColorPalette;
+
+  /** Synthesized VS Code theme */
+  readonly theme: IThemeVSC;
+
+  /** Editor element mappings the theme was synthesized from */
+  readonly editorMappings: IEditorMapping[];
+
+  /** Token mappings the theme was synthesized from */
+  readonly tokenMappings: ITokenMapping[];
+}
+
+/**
+ * Mapping value that resolves through a given palette color
+ */
+interface IColorUsage {
+  /** Mapping file the value is defined in */
+  readonly file: string;
+
+  /** Location of the value in the mapping file */
+  readonly location: ISourceLocation;
+
+  /** Editor element identifier or token selector */
+  readonly target: string;
+
+  /** Token system of a token mapping, undefined for editor colors */
+  readonly system?: TokenSystem;
+
+  /** Style property holding the value: color or background */
+  readonly property: string;
+
+  /** Mapping value as written */
+  readonly reference: string;
+
+  /** Names of the themes in which the value resolves through the color */
+  readonly themes: string[];
+}
+
+/**
+ * Variant key that some themes define in modus-palette.json and another
+ * theme lacks
+ */
+interface IVariantGap {
+  /** Variant key */
+  readonly key: string;
+
+  /** Theme whose variant block lacks the key */
+  readonly themeId: string;
+
+  /** Themes whose variant blocks define the key */
+  readonly definedBy: string[];
+
+  /** Layer the theme takes the name from instead, undefined if none */
+  readonly fallback?: PaletteSource;
+}
+
+/**
+ * Foreground/background pair that fails the contrast requirement
+ */
+interface IContrastFinding {
+  /** Identifier of the theme the pair belongs to */
+  readonly themeId: string;
+
+  /** Foreground element identifier or token scope */
+  readonly foreground: string;
+
+  /** Background element identifier */
+  readonly background: string;
+
+  /** Palette reference the foreground was resolved from */
+  readonly foregroundReference: string;
+
+  /** Palette reference the background was resolved from */
+  readonly backgroundReference: string;
+
+  /** Computed WCAG contrast ratio */
+  readonly ratio: number;
+}
+
+/**
+ * Color resolution service
+ */
+interface IColorResolver {
+  /**
+   * Resolve a color reference with opacity notation
+   *
+   * @param reference - Color reference with opacity (format: "color-name@opacity")
+   * @param palette - Color palette to resolve against
+   * @returns Resolved hex color with opacity applied
+   * @throws {ThemeProcessingError} If the reference is invalid or cannot be resolved
+   */
+  resolveColorWithOpacity(reference: string, palette: IColorPalette): string;
+
+  /**
+   * Resolve a color function expression
+   *
+   * @param expression - Expression such as "mix(bg-main, blue, 0.15)"
+   * @param palette - Color palette to resolve against
+   * @returns Resolved hex color
+   * @throws {ThemeProcessingError} If the expression is invalid or cannot be resolved
+   */
+  resolveColorExpression(expression: string, palette: IColorPalette): string;
+
+  /**
+   * Parse and validate an opacity value
+   *
+   * @param opacityStr - String representation of opacity value
+   * @param fullReference - Full color reference for error context
+   * @returns Validated opacity value between 0 and 1
+   * @throws {ThemeProcessingError} If opacity value is invalid
+   */
+  parseAndValidateOpacity(opacityStr: string, fullReference: string): number;
+
+  /**
+   * Resolve a base color name to its hex value
+   *
+   * @param baseColorName - Base color name (without opacity suffix)
+   * @param palette - Color palette to resolve against
+   * @returns Resolved hex color
+   * @throws {ThemeProcessingError} If base color cannot be resolved
+   */
+  resolveBaseColor(baseColorName: string, palette: IColorPalette): string;
+
+  /**
+   * Find and resolve a color from the variant block of the palette's theme
+   *
+   * @param colorName - Color name to find
+   * @param palette - Color palette containing variants
+   * @returns Resolved color or undefined if not found
+   */
+  findAndResolveVariantColor(colorName: string, palette: IColorPalette): string | undefined;
+}
+
+/**
+ * Theme analysis service
+ */
+export interface IThemeAnalyzer {
+  /**
+   * Analyze a theme source file and extract color definitions
+   *
+   * @param path - Path to the theme source file
+   * @returns Promise resolving to the extracted color definitions
+   */
+  analyzeSource(path: string): Promise<IColor>;
+
+  /**
+   * Extract the palette entries of a theme source file
+   *
+   * @param path - Path to the theme source file
+   * @returns Promise resolving to the palette entries with line numbers
+   */
+  extractPaletteEntries(path: string): Promise<IPaletteEntry[]>;
+
+  /**
+   * Load extension data for palette customization
+   *
+   * @param path - Path to the extensions file
+   * @returns Promise resolving to the palette extensions
+   */
+  loadExtensions(path: string): Promise<IColorPalette>;
+
+  /**
+   * Merge multiple color sources into a unified palette
+   *
+   * @param base - Base color definitions
+   * @param extensions - Extension color definitions
+   * @param overrides - User override color definitions
+   * @param themeId - Target theme identifier
+   * @param preset - Preset overrides applied before user overrides
+   * @returns Unified color palette
+   */
+  mergeColorSources(
+    base: IColor,
+    extensions: IColorPalette,
+    overrides: Record<string, string>,
+    themeId: string,
+    preset?: Record<string, string>
+  ): IColorPalette;
+
+  /**
+   * Load an upstream preset of palette overrides
+   *
+   * @param path - Path to the upstream modus-themes.el file
+   * @param preset - Preset to load
+   * @returns Promise resolving to the preset overrides
+   */
+  loadPreset(path: string, preset: PalettePreset): Promise<Record<string, string>>;
+
+  /**
+   * Resolve a symbolic color name to its concrete hex value
+   *
+   * @param name - Color name or reference
+   * @param palette - Color palette to resolve against
+   * @returns Resolved hex color value or undefined if not resolvable
+   * @throws {ThemeProcessingError} If the reference is unknown or circular
+   */
+  resolveColorReference(name: string, palette: IColorPalette): string | undefined;
+
+  /**
+   * Resolve a color reference while recording every step taken
+   *
+   * @param name - Color name or reference
+   * @param palette - Color palette to resolve against
+   * @returns Resolution trace ending in the resolved hex color
+   * @throws {ThemeProcessingError} If the reference cannot be resolved
+   */
+  traceColorReference(name: string, palette: IColorPalette): IColorResolutionTrace;
+}
+
+/**
+ * Theme generation service
+ */
+interface IThemeFactory {
+  /**
+   * Synthesize VS Code theme from components
+   *
+   * @param theme - Theme definition metadata
+   * @param palette - Color palette for token and editor coloring
+   * @param editorMappings - Editor element color assignments
+   * @param tokenMappings - Token color assignments
+   * @returns Constructed VS Code theme
+   */
+  synthesizeTheme(
+    theme: IThemeDefinition,
+    palette: IColorPalette,
+    editorMappings: IEditorMapping[],
+    tokenMappings: ITokenMapping[]
+  ): IThemeVSC;
+}
+
+/**
+ * Terminal color scheme resolved from a theme palette
+ */
+export interface ITerminalScheme {
+  /** Theme display name */
+  readonly name: string;
+
+  /** Default text color */
+  readonly foreground: string;
+
+  /** Default background color */
+  readonly background: string;
+
+  /** Cursor color */
+  readonly cursor: string;
+
+  /** Text color of selected cells */
+  readonly selectionForeground: string;
+
+  /** Background color of selected cells */
+  readonly selectionBackground: string;
+
+  /** The 16 ANSI colors, black to white followed by their bright variants */
+  readonly ansi: ReadonlyArray<string>;
+}
+
+/**
+ * Terminal color scheme export service
+ */
+export interface ITerminalExporter {
+  /** Format the exporter writes */
+  readonly format: TerminalFormat;
+
+  /** Human-readable name of the format */
+  readonly label: string;
+
+  /** File extension of the exported file, without the leading dot */
+  readonly fileExtension: string;
+
+  /**
+   * Write a terminal color scheme in the exporter's format
+   *
+   * @param scheme - Resolved terminal color scheme
+   * @returns File contents
+   */
+  export(scheme: ITerminalScheme): string;
+}
+
+/**
+ * Serialization service for color scheme formats of other editors
+ */
+export interface IColorSchemeSerializer {
+  /** Format the serializer writes */
+  readonly format: ColorSchemeFormat;
+
+  /** Human-readable name of the format */
+  readonly label: string;
+
+  /** File extension of the serialized file, without the leading dot */
+  readonly fileExtension: string;
+
+  /**
+   * Serialize a theme's TextMate rules and editor colors
+   *
+   * @param theme - Internal theme representation
+   * @returns File contents
+   */
+  serialize(theme: IThemeVSC): string;
+}
+
+/**
+ * Theme serialization service
+ */
+export interface IThemeSerializer {
+  /**
+   * Serialize theme to VS Code's format specification
+   *
+   * @param theme - Internal theme representation
+   * @returns VS Code compatible theme object
+   */
+  serialize(theme: IThemeVSC): ISerializedTheme;
+}
+
+/**
+ * Validator of serialized themes
+ */
+interface IThemeValidator {
+  /**
+   * Check a serialized theme before it is written
+   *
+   * @param serialized - Serialized theme, as parsed back from its file contents
+   * @returns Problems found, empty if the theme is valid
+   */
+  validate(serialized: unknown): string[];
+}
+
+/**
+ * Theme orchestration service
+ */
+export interface IThemeOrchestrator {
+  /**
+   * Generate the themes whose inputs changed since the last generation
+   *
+   * @param extensionPath - Path to the extension root
+   * @param config - User configuration
+   * @param force - Synthesize every theme regardless of the manifest
+   * @param token - Cancellation token checked before each write
+   * @returns Promise resolving to the ids of the themes whose files were written
+   * @throws {GenerationCancelledError} If cancelled, listing the themes already written
+   */
+  generateAllThemes(
+    extensionPath: string,
+    config: IConfiguration,
+    force?: boolean,
+    token?: ICancellationToken
+  ): Promise<string[]>;
+
+  /**
+   * Put the last-known-good copy of each theme back in place
+   *
+   * @param extensionPath - Path to the extension root
+   * @returns Promise resolving to the ids of the themes whose files were restored
+   */
+  restoreLastGoodThemes(extensionPath: string): Promise<string[]>;
+
+  /**
+   * Synthesize all themes without writing them to disk
+   *
+   * @param extensionPath - Path to the extension root
+   * @param config - User configuration
+   * @returns Promise resolving to the synthesized themes
+   */
+  synthesizeAllThemes(extensionPath: string, config: IConfiguration): Promise<IThemeSynthesis[]>;
+
+  /**
+   * Find every mapping that resolves through a palette color
+   *
+   * @param extensionPath - Path to the extension root
+   * @param config - User configuration
+   * @param name - Palette color name
+   * @returns Promise resolving to the usages in file order
+   */
+  findColorUsages(extensionPath: string, config: IConfiguration, name: string): Promise<IColorUsage[]>;
+
+  /**
+   * Find variant keys missing from some themes' blocks in modus-palette.json
+   *
+   * @param extensionPath - Path to the extension root
+   * @param config - User configuration
+   * @returns Promise resolving to the gaps, ordered by theme
+   */
+  findMissingVariantKeys(extensionPath: string, config: IConfiguration): Promise<IVariantGap[]>;
+}
+
+/**
+ * Contrast auditing service
+ */
+export interface IContrastAuditor {
+  /** Minimum contrast ratio a pair must reach to pass the audit */
+  readonly minimumRatio: number;
+
+  /**
+   * Audit a synthesized theme for insufficient contrast
+   *
+   * @param synthesis - Synthesized theme with its palette and mappings
+   * @returns Pairs whose contrast ratio falls below the requirement
+   */
+  audit(synthesis: IThemeSynthesis): IContrastFinding[];
+
+  /**
+   * Compute the WCAG 2.x contrast ratio between two colors
+   *
+   * @param foreground - Foreground hex color, translucent colors allowed
+   * @param background - Background hex color, translucent only with a backdrop
+   * @param backdrop - Opaque color a translucent background is drawn over
+   * @returns Contrast ratio between 1 and 21
+   * @throws {ThemeProcessingError} If the background is translucent and no
+   * backdrop is given
+   */
+  computeContrastRatio(foreground: string, background: string, backdrop?: string): number;
+}
+
+/**
+ * Semantic selector parsing service
+ */
+interface ISemanticSelectorParser {
+  /**
+   * Parse a semantic token selector
+   *
+   * @param selector - Selector string (format: "type.modifier:language")
+   * @returns Parsed selector
+   * @throws {ThemeProcessingError} If the selector is malformed
+   */
+  parse(selector: string): ISemanticSelector;
+
+  /**
+   * Format a parsed selector back into its string form
+   *
+   * @param selector - Parsed selector
+   * @returns Selector string (format: "type.modifier:language")
+   */
+  format(selector: ISemanticSelector): string;
+}
+
+/**
+ * Domain-specific error for theme processing
+ */
+export class ThemeProcessingError extends Error {
+  /** Error classification code */
+  public readonly code: string;
+
+  /** Original error that triggered this error */
+  public readonly cause?: Error;
+
+  /**
+   * Construct a new theme processing error
+   *
+   * @param message - Descriptive error message
+   * @param code - Error classification code
+   * @param cause - Original triggering error if applicable
+   */
+  constructor(message: string, code: string, cause?: Error) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.cause = cause;
+
+    if (Error.captureStackTrace) {
+      Error.captureStackTrace(this, this.constructor);
+    }
+  }
+}
+
+/**
+ * Cancellation of a theme generation
+ *
+ * Themes written before the cancellation took effect are listed, so the
+ * run taking over can report them as its own.
+ */
+export class GenerationCancelledError extends ThemeProcessingError {
+  /** Ids of the themes whose files were written before the cancellation */
+  public readonly written: string[];
+
+  /**
+   * Construct a new generation cancelled error
+   *
+   * @param written - Ids of the themes already written
+   */
+  constructor(written: string[] = []) {
+    super('Theme generation was cancelled', 'GENERATION_CANCELLED');
+    this.written = written;
+  }
+}
+
+/**
+ * Parse error with a precise location in a source file
+ */
+class SourceParseError extends ThemeProcessingError {
+  /** Path or name of the offending source file */
+  public readonly file: string;
+
+  /** One-based line number */
+  public readonly line: number;
+
+  /** One-based column number */
+  public readonly column: number;
+
+  /**
+   * Construct a new source parse error
+   *
+   * @param message - Descriptive error message
+   * @param file - Path or name of the offending source file
+   * @param location - Position of the offending element
+   */
+  constructor(message: string, file: string, location: ISourceLocation) {
+    super(`${file}:${location.line}:${location.column}: ${message}`, 'PARSE_ERROR');
+    this.file = file;
+    this.line = location.line;
+    this.column = location.column;
+  }
+}
+
+/**
+ * Standard implementation of color transformation service
+ */
+export class StandardColorTransformer implements IColorTransformer {
+  /**
+   * Apply opacity to a hex color
+   *
+   * @param hex - Hex color string (with or without # prefix)
+   * @param opacity - Opacity value between 0 and 1
+   * @returns Hex color with alpha channel (#RRGGBBAA)
+   * @throws {ThemeProcessingError} If the hex color format is invalid
+   */
+  public applyOpacity(hex: string, opacity: number): string {
+    //
+    if (!hex) {
+      throw new ThemeProcessingError(
+        'Invalid hex color: empty or undefined',
+        'COLOR_FORMAT_ERROR'
+      );
+    }
+
+    if (!hex.startsWith('#')) {
+      hex = `#${hex}`;
+    }
+
+    const hexWithoutPrefix = hex.replace('#', '');
+
+    // 8-digit RGBA formats (with alpha channel) are intentionally rejected to
+    // prevent ambiguity when appending our calculated alpha value.
+    //
+    if (!/^[0-9A-Fa-f]{6}$/.test(hexWithoutPrefix)) {
+      throw new ThemeProcessingError(
+        `Invalid hex color format: ${hex}`,
+        'COLOR_FORMAT_ERROR'
+      );
+    }
+
+    const alpha = Math.round(opacity * 255)
+      .toString(16)
+      .padStart(2, '0');
+
+    return `#${hexWithoutPrefix}${alpha}`;
+  }
+
+  /**
+   * Composite a possibly translucent color over an opaque background
+   *
+   * @param foreground - Hex color string (#RRGGBB or #RRGGBBAA)
+   * @param background - Opaque hex color string (#RRGGBB)
+   * @returns Opaque hex color (#RRGGBB) as it would appear on screen
+   * @throws {ThemeProcessingError} If either hex color format is invalid
+   */
+  public composite(foreground: string, background: string): string {
+    const fg = this.parseChannels(foreground);
+    const bg = this.parseChannels(background);
+
+    const alpha = fg[3] / 255;
+    const blended = [0, 1, 2].map(i =>
+      Math.round(fg[i] * alpha + bg[i] * (1 - alpha))
+    );
+
+    return `#${blended.map(c => c.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  /**
+   * Mix two colors channel by channel, alpha included
+   *
+   * @param first - Hex color string (#RRGGBB or #RRGGBBAA)
+   * @param second - Hex color string (#RRGGBB or #RRGGBBAA)
+   * @param weight - Proportion of the second color, between 0 and 1
+   * @returns Mixed hex color, with alpha only if either input has one
+   * @throws {ThemeProcessingError} If either hex color format is invalid
+   */
+  public mix(first: string, second: string, weight: number): string {
+    const a = this.parseChannels(first);
+    const b = this.parseChannels(second);
+
+    const mixed = a.map((channel, i) =>
+      Math.round(channel * (1 - weight) + b[i] * weight)
+    ) as [number, number, number, number];
+
+    return this.formatChannels(mixed, this.hasAlpha(first) || this.hasAlpha(second));
+  }
+
+  /**
+   * Shift the HSL lightness of a color
+   *
+   * @param hex - Hex color string (#RRGGBB or #RRGGBBAA)
+   * @param amount - Lightness delta between -1 and 1
+   * @returns Adjusted hex color, preserving any alpha channel
+   * @throws {ThemeProcessingError} If the hex color format is invalid
+   */
+  public adjustLightness(hex: string, amount: number): string {
+    const [r, g, b, a] = this.parseChannels(hex).map(channel => channel / 255);
+
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    const delta = max - min;
+    const lightness = (max + min) / 2;
+
+    let hue = 0;
+    let saturation = 0;
+    if (delta !== 0) {
+      saturation = delta / (1 - Math.abs(2 * lightness - 1));
+      if (max === r) {
+        hue = ((g - b) / delta) % 6;
+      } else if (max === g) {
+        hue = (b - r) / delta + 2;
+      } else {
+        hue = (r - g) / delta + 4;
+      }
+      hue = (hue * 60 + 360) % 360;
+    }
+
+    const adjusted = Math.min(1, Math.max(0, lightness + amount));
+    const chroma = (1 - Math.abs(2 * adjusted - 1)) * saturation;
+    const x = chroma * (1 - Math.abs((hue / 60) % 2 - 1));
+    const m = adjusted - chroma / 2;
+
+    const sector = Math.floor(hue / 60) % 6;
+    const [r1, g1, b1] = [
+      [chroma, x, 0],
+      [x, chroma, 0],
+      [0, chroma, x],
+      [0, x, chroma],
+      [x, 0, chroma],
+      [chroma, 0, x]
+    ][sector];
+
+    return this.formatChannels(
+      [r1 + m, g1 + m, b1 + m, a].map(channel => Math.round(channel * 255)) as [number, number, number, number],
+      this.hasAlpha(hex)
+    );
+  }
+
+  /**
+   * Determine whether a hex color carries an alpha channel
+   *
+   * @param hex - Hex color string
+   * @returns True for #RRGGBBAA colors
+   */
+  private hasAlpha(hex: string): boolean {
+    return hex.replace('#', '').length === 8;
+  }
+
+  /**
+   * Format channel values as a hex color
+   *
+   * @param channels - Red, green, blue and alpha values between 0 and 255
+   * @param withAlpha - Whether to include the alpha channel
+   * @returns Hex color (#RRGGBB or #RRGGBBAA)
+   */
+  private formatChannels(channels: [number, number, number, number], withAlpha: boolean): string {
+    const hex = (withAlpha ? channels : channels.slice(0, 3))
+      .map(channel => channel.toString(16).padStart(2, '0'))
+      .join('');
+
+    return `#${hex}`;
+  }
+
+  /**
+   * Split a hex color into its red, green, blue and alpha channels
+   *
+   * @param hex - Hex color string (#RRGGBB or #RRGGBBAA)
+   * @returns Channel values between 0 and 255
+   * @throws {ThemeProcessingError} If the hex color format is invalid
+   */
+  private parseChannels(hex: string): [number, number, number, number] {
+    const value = (hex || '').replace('#', '');
+
+    if (!/^([0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$/.test(value)) {
+      throw new ThemeProcessingError(
+        `Invalid hex color format: ${hex}`,
+        'COLOR_FORMAT_ERROR'
+      );
+    }
+
+    const channel = (offset: number) => parseInt(value.slice(offset, offset + 2), 16);
+    return [channel(0), channel(2), channel(4), value.length === 8 ? channel(6) : 255];
+  }
+}
+
+/**
+ * Parser turning raw "modus.*" setting values into a configuration
+ *
+ * Shared by the extension, which reads the values from VS Code, and the
+ * command-line generator, which reads them from a settings file.
+ */
+export class ConfigurationParser {
+  /**
+   * Build a configuration from raw setting values
+   *
+   * @param lookup - Raw value of a setting by key relative to "modus",
+   * undefined if the setting is not set
+   * @returns Configuration with defaults for unset or malformed values
+   */
+  public parse(lookup: (key: string) => unknown): IConfiguration {
+    const flag = (key: string) => lookup(key) === true;
+    const overrides = lookup('colorOverrides');
+    const warnings: string[] = [];
+    const { colorOverrides, themeOverrides } = this.splitColorOverrides(
+      typeof overrides === 'object' && overrides !== null ? overrides as Record<string, unknown> : {},
+      warnings
+    );
+
+    return {
+      colorOverrides,
+      themeOverrides,
+      experimental: flag('experimental'),
+      boldConstructs: flag('boldConstructs'),
+      italicConstructs: flag('italicConstructs'),
+      palettePreset: this.parsePalettePreset(lookup('palettePreset')),
+      liveOverrides: flag('liveOverrides'),
+      warnings
+    };
+  }
+
+  /**
+   * Separate global overrides from theme-scoped "[selector]" blocks
+   *
+   * A bracketed key is always a selector, never a palette name, so one
+   * without an object value is dropped rather than applied to every theme.
+   *
+   * @param raw - Raw modus.colorOverrides setting value
+   * @param warnings - Problems found, appended to
+   * @returns Global overrides and scoped overrides keyed by bare selector
+   */
+  private splitColorOverrides(
+    raw: Record<string, unknown>,
+    warnings: string[]
+  ): Pick<IConfiguration, 'colorOverrides' | 'themeOverrides'> {
+    const colorOverrides: Record<string, string> = {};
+    const themeOverrides: Record<string, Record<string, string>> = {};
+
+    for (const [key, value] of Object.entries(raw)) {
+      const scope = /^\[(.+)\]$/.exec(key);
+
+      if (scope) {
+        if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+          themeOverrides[scope[1]] = Object.fromEntries(
+            Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+          );
+        } else {
+          warnings.push(`Ignoring "modus.colorOverrides" entry "${key}": theme overrides must be an object`);
+        }
+      } else if (typeof value === 'string') {
+        colorOverrides[key] = value;
+      }
+    }
+
+    return { colorOverrides, themeOverrides };
+  }
+
+  /**
+   * Validate a palette preset setting value
+   *
+   * @param value - Raw setting value
+   * @returns Matching preset, or none for unknown values
+   */
+  private parsePalettePreset(value: unknown): PalettePreset {
+    const presets = Object.values(PalettePreset) as unknown[];
+    return presets.includes(value) ? value as PalettePreset : PalettePreset.NONE;
+  }
+}
+
+/**
+ * Generation manifest store kept in memory
+ *
+ * Used where no state outlives the process, such as the command-line
+ * generator; every theme is synthesized again on each run.
+ */
+export class MemoryManifestStore implements IManifestStore {
+  private manifest: IGenerationManifest = {};
+
+  /**
+   * Load the stored manifest
+   *
+   * @returns Stored manifest, empty if none was stored
+   */
+  public load(): IGenerationManifest {
+    return this.manifest;
+  }
+
+  /**
+   * Replace the stored manifest
+   *
+   * @param manifest - Manifest to store
+   * @returns Promise resolving when the manifest is stored
+   */
+  public async save(manifest: IGenerationManifest): Promise<void> {
+    this.manifest = manifest;
+  }
+}
+
+/**
+ * Standard implementation of color resolution service
+ */
+class StandardColorResolver implements IColorResolver {
+  /** Functions understood in color expressions */
+  private static readonly COLOR_FUNCTIONS: ReadonlyArray<string> = Object.freeze([
+    'mix',
+    'lighten',
+    'darken'
+  ]);
+
+  private readonly transformer: IColorTransformer;
+  private readonly colorReferenceResolver: (name: string, palette: IColorPalette) => string | undefined;
+
+  /**
+   * Construct a new color resolver
+   *
+   * @param transformer - Color transformation service
+   * @param colorReferenceResolver - Function to resolve color references
+   */
+  constructor(
+    transformer: IColorTransformer,
+    colorReferenceResolver: (name: string, palette: IColorPalette) => string | undefined
+  ) {
+    this.transformer = transformer;
+    this.colorReferenceResolver = colorReferenceResolver;
+  }
+
+  /**
+   * Resolve a color reference with opacity notation
+   *
+   * @param reference - Color reference with opacity (format: "color-name@opacity")
+   * @param palette - Color palette to resolve against
+   * @returns Resolved hex color with opacity applied
+   * @throws {ThemeProcessingError} If the reference is invalid or cannot be resolved
+   */
+  public resolveColorWithOpacity(reference: string, palette: IColorPalette): string {
+    const [baseColorName, opacityStr] = reference.split('@');
+    const opacity = this.parseAndValidateOpacity(opacityStr, reference);
+    const baseColor = this.resolveBaseColor(baseColorName, palette);
+
+    return this.transformer.applyOpacity(baseColor, opacity);
+  }
+
+  /**
+   * Resolve a color function expression
+   *
+   * Supported functions:
+   * - mix(a, b, weight): blend b into a by weight (0-1 or percentage)
+   * - lighten(color, amount): raise the HSL lightness by amount
+   * - darken(color, amount): lower the HSL lightness by amount
+   *
+   * Arguments may be palette names, hex values, "name@opacity" references or
+   * nested calls, and a call may itself carry an "@opacity" suffix.
+   *
+   * @param expression - Expression such as "mix(bg-main, blue, 0.15)"
+   * @param palette - Color palette to resolve against
+   * @returns Resolved hex color
+   * @throws {ThemeProcessingError} If the expression is invalid or cannot be resolved
+   */
+  public resolveColorExpression(expression: string, palette: IColorPalette): string {
+    const parsed = this.parseColorExpression(expression);
+    return this.evaluateColorExpression(parsed, palette, expression);
+  }
+
+  /**
+   * Parse a color function expression
+   *
+   * @param expression - Expression text
+   * @returns Parsed expression tree
+   * @throws {ThemeProcessingError} If the expression is malformed
+   */
+  private parseColorExpression(expression: string): ColorExpression {
+    const tokens = expression.match(/[(),]|[^(),\s]+/g) ?? [];
+    let position = 0;
+
+    const fail = (message: string): never => {
+      throw new ThemeProcessingError(
+        `Invalid color expression "${expression}": ${message}`,
+        'COLOR_EXPRESSION_ERROR'
+      );
+    };
+
+    const parseNode = (): ColorExpression => {
+      const token = tokens[position++];
+
+      if (token === undefined || token === '(' || token === ')' || token === ',') {
+        return fail(token === undefined ? 'unexpected end of expression' : `unexpected "${token}"`);
+      }
+
+      if (tokens[position] !== '(') {
+        const amount = /^(\d*\.?\d+)(%?)$/.exec(token);
+        if (amount) {
+          const value = parseFloat(amount[1]) / (amount[2] ? 100 : 1);
+          return { kind: 'amount', value, text: token };
+        }
+        return { kind: 'reference', name: token };
+      }
+
+      if (!StandardColorResolver.COLOR_FUNCTIONS.includes(token)) {
+        return fail(`unknown function "${token}"`);
+      }
+
+      position++;
+      const args: ColorExpression[] = [parseNode()];
+      while (tokens[position] === ',') {
+        position++;
+        args.push(parseNode());
+      }
+
+      if (tokens[position++] !== ')') {
+        return fail(`expected ")" after arguments of "${token}"`);
+      }
+
+      // An opacity suffix directly follows the closing parenthesis and is
+      // tokenized on its own, e.g. "mix(a, b, 0.5)@0.3" yields "@0.3".
+      //
+      let opacity: number | undefined;
+      const suffix = tokens[position];
+      if (suffix !== undefined && suffix.startsWith('@')) {
+        position++;
+        opacity = this.parseAndValidateOpacity(suffix.slice(1), expression);
+      }
+
+      return { kind: 'call', name: token, args, ...(opacity !== undefined && { opacity }) };
+    };
+
+    const root = parseNode();
+    if (position < tokens.length) {
+      fail(`unexpected "${tokens[position]}"`);
+    }
+
+    return root;
+  }
+
+  /**
+   * Evaluate a parsed color expression
+   *
+   * @param node - Expression tree node
+   * @param palette - Color palette to resolve against
+   * @param expression - Full expression text for error context
+   * @returns Resolved hex color
+   * @throws {ThemeProcessingError} If the expression cannot be evaluated
+   */
+  private evaluateColorExpression(node: ColorExpression, palette: IColorPalette, expression: string): string {
+    const fail = (message: string): never => {
+      throw new ThemeProcessingError(
+        `Invalid color expression "${expression}": ${message}`,
+        'COLOR_EXPRESSION_ERROR'
+      );
+    };
+
+    if (node.kind === 'amount') {
+      return fail(`expected a color but found "${node.text}"`);
+    }
+
+    if (node.kind === 'reference') {
+      const color = this.colorReferenceResolver(node.name, palette);
+      return color ?? fail(`"${node.name}" does not resolve to a color`);
+    }
+
+    const amountOf = (arg: ColorExpression | undefined): number => {
+      if (!arg || arg.kind !== 'amount' || arg.value > 1) {
+        return fail(`"${node.name}" expects an amount between 0 and 1 or 0% and 100%`);
+      }
+      return arg.value;
+    };
+
+    let result: string;
+    switch (node.name) {
+      case 'mix': {
+        if (node.args.length !== 3) {
+          return fail('"mix" expects (color, color, weight)');
+        }
+        const [first, second, weight] = node.args;
+        result = this.transformer.mix(
+          this.evaluateColorExpression(first, palette, expression),
+          this.evaluateColorExpression(second, palette, expression),
+          amountOf(weight)
+        );
+        break;
+      }
+      case 'lighten':
+      case 'darken': {
+        if (node.args.length !== 2) {
+          return fail(`"${node.name}" expects (color, amount)`);
+        }
+        const [color, amount] = node.args;
+        const delta = amountOf(amount) * (node.name === 'darken' ? -1 : 1);
+        result = this.transformer.adjustLightness(
+          this.evaluateColorExpression(color, palette, expression),
+          delta
+        );
+        break;
+      }
+      default:
+        return fail(`unknown function "${node.name}"`);
+    }
+
+    if (node.opacity !== undefined) {
+      result = this.transformer.applyOpacity(result.slice(0, 7), node.opacity);
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse and validate an opacity value
+   *
+   * @param opacityStr - String representation of opacity value
+   * @param fullReference - Full color reference for error context
+   * @returns Validated opacity value between 0 and 1
+   * @throws {ThemeProcessingError} If opacity value is invalid
+   */
+  public parseAndValidateOpacity(opacityStr: string, fullReference: string): number {
+    const opacity = parseFloat(opacityStr);
+
+    if (isNaN(opacity) || opacity < 0 || opacity > 1) {
+      throw new ThemeProcessingError(
+        `Invalid opacity value: "${opacityStr}" in "${fullReference}"`,
+        'COLOR_OPACITY_ERROR'
+      );
+    }
+
+    return opacity;
+  }
+
+  /**
+   * Resolve a base color name to its hex value
+   *
+   * @param baseColorName - Base color name (without opacity suffix)
+   * @param palette - Color palette to resolve against
+   * @returns Resolved hex color
+   * @throws {ThemeProcessingError} If base color cannot be resolved
+   */
+  public resolveBaseColor(baseColorName: string, palette: IColorPalette): string {
+    let baseColorHex: string | undefined;
+
+    // Palette names, hex entries included, go through the reference
+    // resolver so that a trace records the base name like any other step.
+    //
+    if (baseColorName.startsWith('#')) {
+      baseColorHex = baseColorName;
+    }
+    else {
+      try {
+        baseColorHex = this.colorReferenceResolver(baseColorName, palette);
+      } catch (error) {
+        if (error instanceof ThemeProcessingError && error.code === 'COLOR_CYCLE_ERROR') {
+          throw error;
+        }
+        throw new ThemeProcessingError(
+          `Cannot apply opacity to "${baseColorName}": color not found in palette`,
+          'COLOR_REFERENCE_ERROR'
+        );
+      }
+    }
+
+    if (!baseColorHex) {
+      throw new ThemeProcessingError(
+        `Cannot apply opacity to "${baseColorName}": color not found in palette`,
+        'COLOR_REFERENCE_ERROR'
+      );
+    }
+
+    return baseColorHex;
+  }
+
+  /**
+   * Find and resolve a color from the variant block of the palette's theme
+   *
+   * Variant blocks of other themes are never consulted: a name missing from
+   * the theme's own block is missing, rather than borrowed from a theme
+   * with a different background.
+   *
+   * @param colorName - Color name to find
+   * @param palette - Color palette containing variants
+   * @returns Resolved color or undefined if not found
+   */
+  public findAndResolveVariantColor(colorName: string, palette: IColorPalette): string | undefined {
+    const overrides = palette.themeId ? palette.variants?.[palette.themeId] : undefined;
+    if (!overrides || !overrides[colorName]) {
+      return undefined;
+    }
+
+    return this.colorReferenceResolver(overrides[colorName], palette);
+  }
+}
+
+/**
+ * Emacs Lisp s-expression reader
+ *
+ * Implements the subset of the Emacs Lisp reader syntax found in theme
+ * sources: lists, vectors, strings, symbols, character literals, comments and
+ * the quote family of shorthands. Anything else is rejected with a located
+ * PARSE_ERROR rather than skipped, so format changes upstream surface early.
+ */
+class SExpressionReader {
+  /** Characters that terminate a symbol */
+  private static readonly DELIMITERS = /[\s()[\]";'`,]/;
+
+  private readonly source: string;
+  private readonly fileName: string;
+  private position = 0;
+  private line = 1;
+  private column = 1;
+
+  /**
+   * Construct a new reader over a source text
+   *
+   * @param source - Emacs Lisp source text
+   * @param fileName - Source file name for diagnostics
+   */
+  constructor(source: string, fileName: string) {
+    this.source = source;
+    this.fileName = fileName;
+  }
+
+  /**
+   * Read every top-level form of the source
+   *
+   * @returns Top-level expressions in source order
+   * @throws {SourceParseError} If the source is malformed
+   */
+  public readAll(): SExpression[] {
+    const forms: SExpression[] = [];
+
+    this.skipWhitespaceAndComments();
+    while (!this.atEnd()) {
+      forms.push(this.readExpression());
+      this.skipWhitespaceAndComments();
+    }
+
+    return forms;
+  }
+
+  /**
+   * Read a single expression at the current position
+   *
+   * @returns Parsed expression
+   * @throws {SourceParseError} If the expression is malformed
+   */
+  private readExpression(): SExpression {
+    this.skipWhitespaceAndComments();
+
+    if (this.atEnd()) {
+      throw this.error('Unexpected end of input');
+    }
+
+    const location = this.location();
+    const char = this.peek();
+
+    switch (char) {
+      case '(':
+        this.advance();
+        return { kind: 'list', items: this.readSequence(')'), location };
+      case '[':
+        this.advance();
+        return { kind: 'vector', items: this.readSequence(']'), location };
+      case ')':
+      case ']':
+        throw this.error(`Unexpected "${char}"`);
+      case '"':
+        return this.readString();
+      case '?':
+        return this.readCharacter();
+      case '\'':
+        this.advance();
+        return this.readShorthand('quote', location);
+      case '`':
+        this.advance();
+        return this.readShorthand('backquote', location);
+      case ',':
+        this.advance();
+        if (this.peek() === '@') {
+          this.advance();
+          return this.readShorthand(',@', location);
+        }
+        return this.readShorthand(',', location);
+      case '#':
+        if (this.peek(1) === '\'') {
+          this.advance();
+          this.advance();
+          return this.readShorthand('function', location);
+        }
+        throw this.error(`Unsupported reader syntax "#${this.peek(1)}"`);
+      default:
+        return this.readSymbol();
+    }
+  }
+
+  /**
+   * Read list or vector items up to the closing delimiter
+   *
+   * @param closing - Closing delimiter
+   * @returns Items of the sequence
+   * @throws {SourceParseError} If the sequence is not terminated
+   */
+  private readSequence(closing: string): SExpression[] {
+    const items: SExpression[] = [];
+
+    for (;;) {
+      this.skipWhitespaceAndComments();
+
+      if (this.atEnd()) {
+        throw this.error(`Unterminated sequence, expected "${closing}"`);
+      }
+
+      if (this.peek() === closing) {
+        this.advance();
+        return items;
+      }
+
+      items.push(this.readExpression());
+    }
+  }
+
+  /**
+   * Read the datum following a quote-like shorthand
+   *
+   * @param name - Symbol the shorthand expands to
+   * @param location - Position of the shorthand
+   * @returns List of the expansion symbol and the datum
+   */
+  private readShorthand(name: string, location: ISourceLocation): SExpression {
+    return {
+      kind: 'list',
+      items: [
+        { kind: 'symbol', name, location },
+        this.readExpression()
+      ],
+      location
+    };
+  }
+
+  /**
+   * Read a string literal
+   *
+   * @returns String expression with escapes processed
+   * @throws {SourceParseError} If the string is not terminated
+   */
+  private readString(): SExpression {
+    const location = this.location();
+    let value = '';
+
+    this.advance();
+    for (;;) {
+      if (this.atEnd()) {
+        throw new SourceParseError('Unterminated string', this.fileName, location);
+      }
+
+      const char = this.advance();
+      if (char === '"') {
+        return { kind: 'string', value, location };
+      }
+
+      if (char === '\\') {
+        if (this.atEnd()) {
+          throw new SourceParseError('Unterminated string', this.fileName, location);
+        }
+
+        const escaped = this.advance();
+        switch (escaped) {
+          case 'n':  value += '\n'; break;
+          case 't':  value += '\t'; break;
+          case '\n': break; // Line continuation
+          default:   value += escaped;
+        }
+        continue;
+      }
+
+      value += char;
+    }
+  }
+
+  /**
+   * Read a character literal such as ?a, ?\s or ?\C-x
+   *
+   * @returns Character expression holding the literal text after "?"
+   */
+  private readCharacter(): SExpression {
+    const location = this.location();
+    let value = '';
+
+    this.advance();
+    if (this.atEnd()) {
+      throw this.error('Unterminated character literal');
+    }
+
+    if (this.peek() === '\\') {
+      value += this.advance();
+    }
+    value += this.advance();
+
+    while (!this.atEnd() && this.peek() === '-') {
+      value += this.advance();
+      if (!this.atEnd()) {
+        value += this.advance();
+      }
+    }
+
+    return { kind: 'character', value, location };
+  }
+
+  /**
+   * Read a symbol or number
+   *
+   * @returns Symbol expression
+   */
+  private readSymbol(): SExpression {
+    const location = this.location();
+    let name = '';
+
+    while (!this.atEnd() && !SExpressionReader.DELIMITERS.test(this.peek())) {
+      const char = this.advance();
+      if (char === '\\' && !this.atEnd()) {
+        name += this.advance();
+      } else {
+        name += char;
+      }
+    }
+
+    if (name === '') {
+      throw this.error(`Unexpected "${this.peek()}"`);
+    }
+
+    return { kind: 'symbol', name, location };
+  }
+
+  /**
+   * Skip whitespace and line comments
+   */
+  private skipWhitespaceAndComments(): void {
+    while (!this.atEnd()) {
+      const char = this.peek();
+
+      if (/\s/.test(char)) {
+        this.advance();
+      } else if (char === ';') {
+        while (!this.atEnd() && this.peek() !== '\n') {
+          this.advance();
+        }
+      } else {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Determine whether the whole source has been consumed
+   *
+   * @returns True at the end of the source
+   */
+  private atEnd(): boolean {
+    return this.position >= this.source.length;
+  }
+
+  /**
+   * Look at a character without consuming it
+   *
+   * @param offset - Distance from the current position
+   * @returns Character at the position, or an empty string past the end
+   */
+  private peek(offset = 0): string {
+    return this.source.charAt(this.position + offset);
+  }
+
+  /**
+   * Consume the current character, tracking line and column
+   *
+   * @returns Consumed character
+   */
+  private advance(): string {
+    const char = this.source.charAt(this.position++);
+
+    if (char === '\n') {
+      this.line++;
+      this.column = 1;
+    } else {
+      this.column++;
+    }
+
+    return char;
+  }
+
+  /**
+   * Get the current source position
+   *
+   * @returns Current line and column
+   */
+  private location(): ISourceLocation {
+    return { line: this.line, column: this.column };
+  }
+
+  /**
+   * Create a parse error located at the current position
+   *
+   * @param message - Descriptive error message
+   * @returns Located parse error
+   */
+  private error(message: string): SourceParseError {
+    return new SourceParseError(message, this.fileName, this.location());
+  }
+}
+
+/**
+ * Modus palette parser implementation
+ *
+ * Locates the "(defconst <theme>-palette '(...))" form, wherever it is nested
+ * (upstream wraps it in eval-and-compile), and validates every entry.
+ */
+class EmacsPaletteParser implements IPaletteParser {
+  /**
+   * Parse the palette definition of a theme source
+   *
+   * @param content - Emacs Lisp source text
+   * @param fileName - Source file name for diagnostics and palette lookup
+   * @returns Palette entries in source order
+   * @throws {SourceParseError} If the source or palette form is malformed
+   */
+  public parsePalette(content: string, fileName: string): IPaletteEntry[] {
+    const forms = new SExpressionReader(content, fileName).readAll();
+    const definition = this.findPaletteDefinition(forms, fileName);
+    const [, name, value] = definition.items;
+
+    if (!value) {
+      throw new SourceParseError(
+        `Palette "${this.symbolName(name)}" has no value`,
+        fileName,
+        definition.location
+      );
+    }
+
+    const result = this.parseEntries(this.unquote(value, fileName), fileName);
+
+    if (!result.some(entry => entry.kind === PaletteEntryKind.HEX)) {
+      throw new SourceParseError(
+        `Palette "${this.symbolName(name)}" defines no colors`,
+        fileName,
+        value.location
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * Parse a list of palette overrides bound to a variable
+   *
+   * Upstream defines presets such as modus-themes-preset-overrides-faint with
+   * defvar; defconst and defcustom are accepted as well.
+   *
+   * @param content - Emacs Lisp source text
+   * @param fileName - Source file name for diagnostics
+   * @param variableName - Name of the variable holding the overrides
+   * @returns Override entries in source order
+   * @throws {SourceParseError} If the variable is missing or malformed
+   */
+  public parseOverrides(content: string, fileName: string, variableName: string): IPaletteEntry[] {
+    const forms = new SExpressionReader(content, fileName).readAll();
+    let definition: Extract<SExpression, { kind: 'list' }> | undefined;
+
+    const visit = (expression: SExpression): void => {
+      if (definition || (expression.kind !== 'list' && expression.kind !== 'vector')) {
+        return;
+      }
+
+      const [head, name] = expression.items;
+      if (
+        expression.kind === 'list' &&
+        ['defvar', 'defconst', 'defcustom'].includes(this.symbolName(head)) &&
+        this.symbolName(name) === variableName
+      ) {
+        definition = expression;
+        return;
+      }
+
+      expression.items.forEach(visit);
+    };
+    forms.forEach(visit);
+
+    if (!definition) {
+      throw new SourceParseError(
+        `No definition found for "${variableName}"`,
+        fileName,
+        { line: 1, column: 1 }
+      );
+    }
+
+    const value = definition.items[2];
+    if (!value) {
+      throw new SourceParseError(
+        `"${variableName}" has no value`,
+        fileName,
+        definition.location
+      );
+    }
+
+    return this.parseEntries(this.unquote(value, fileName), fileName);
+  }
+
+  /**
+   * Parse palette entry expressions
+   *
+   * @param entries - Entry expressions
+   * @param fileName - Source file name
+   * @returns Palette entries in source order, without shadowed duplicates
+   * @throws {SourceParseError} If an entry is malformed
+   */
+  private parseEntries(entries: SExpression[], fileName: string): IPaletteEntry[] {
+    const result: IPaletteEntry[] = [];
+    const seen = new Set<string>();
+
+    for (const entry of entries) {
+      const parsed = this.parseEntry(entry, fileName);
+
+      // Emacs looks palette entries up with assq, so the first definition of
+      // a name shadows any later one.
+      //
+      if (!seen.has(parsed.name)) {
+        seen.add(parsed.name);
+        result.push(parsed);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Find the defconst form that defines the palette
+   *
+   * The expected name is derived from the file name (modus-vivendi-theme.el
+   * defines modus-vivendi-palette). Without a match, a single defconst whose
+   * name ends in "-palette" is accepted.
+   *
+   * @param forms - Top-level forms of the source
+   * @param fileName - Source file name
+   * @returns The defconst list expression
+   * @throws {SourceParseError} If no unambiguous palette definition exists
+   */
+  private findPaletteDefinition(
+    forms: SExpression[],
+    fileName: string
+  ): Extract<SExpression, { kind: 'list' }> {
+    const candidates: Array<Extract<SExpression, { kind: 'list' }>> = [];
+
+    const visit = (expression: SExpression): void => {
+      if (expression.kind !== 'list' && expression.kind !== 'vector') {
+        return;
+      }
+
+      if (expression.kind === 'list' && this.isPaletteDefinition(expression)) {
+        candidates.push(expression);
+        return;
+      }
+
+      expression.items.forEach(visit);
+    };
+    forms.forEach(visit);
+
+    const expectedName = `${path.basename(fileName).replace(/-theme\.el$/, '').replace(/\.el$/, '')}-palette`;
+    const expected = candidates.find(candidate =>
+      this.symbolName(candidate.items[1]) === expectedName
+    );
+
+    if (expected) {
+      return expected;
+    }
+
+    if (candidates.length === 1) {
+      return candidates[0];
+    }
+
+    throw new SourceParseError(
+      candidates.length === 0
+        ? 'No palette definition found (expected "(defconst ...-palette \'(...))")'
+        : `Ambiguous palette definitions: ${candidates.map(c => this.symbolName(c.items[1])).join(', ')}`,
+      fileName,
+      candidates.length === 0 ? { line: 1, column: 1 } : candidates[0].location
+    );
+  }
+
+  /**
+   * Determine whether a list is a "(defconst ...-palette ...)" form
+   *
+   * @param expression - List expression
+   * @returns True if the list defines a palette
+   */
+  private isPaletteDefinition(expression: Extract<SExpression, { kind: 'list' }>): boolean {
+    const [head, name] = expression.items;
+
+    return this.symbolName(head) === 'defconst' &&
+      /-palette$/.test(this.symbolName(name));
+  }
+
+  /**
+   * Extract the entry list from a quoted palette value
+   *
+   * @param value - Palette value expression
+   * @param fileName - Source file name
+   * @returns Palette entry expressions
+   * @throws {SourceParseError} If the value is not a quoted list
+   */
+  private unquote(value: SExpression, fileName: string): SExpression[] {
+    if (value.kind === 'list' && value.items.length === 2) {
+      const [quote, datum] = value.items;
+      const quoteName = this.symbolName(quote);
+
+      if ((quoteName === 'quote' || quoteName === 'backquote') && datum.kind === 'list') {
+        return datum.items;
+      }
+    }
+
+    throw new SourceParseError(
+      'Palette value is not a quoted list',
+      fileName,
+      value.location
+    );
+  }
+
+  /**
+   * Parse a single "(name value)" palette entry
+   *
+   * @param entry - Entry expression
+   * @param fileName - Source file name
+   * @returns Palette entry
+   * @throws {SourceParseError} If the entry is malformed
+   */
+  private parseEntry(entry: SExpression, fileName: string): IPaletteEntry {
+    // Splices such as ,@other-overrides cannot be evaluated statically.
+    //
+    if (
+      entry.kind !== 'list' ||
+      entry.items.length !== 2 ||
+      entry.items[0].kind !== 'symbol' ||
+      [',', ',@', 'quote', 'backquote', 'function'].includes(entry.items[0].name)
+    ) {
+      throw new SourceParseError(
+        'Palette entry must have the form (NAME VALUE)',
+        fileName,
+        entry.location
+      );
+    }
+
+    const [name, value] = entry.items as [Extract<SExpression, { kind: 'symbol' }>, SExpression];
+    const line = entry.location.line;
+
+    if (value.kind === 'string') {
+      if (!/^#[0-9A-Fa-f]{6}$/.test(value.value)) {
+        throw new SourceParseError(
+          `Invalid hex color "${value.value}" for "${name.name}"`,
+          fileName,
+          value.location
+        );
+      }
+
+      return { name: name.name, value: value.value, kind: PaletteEntryKind.HEX, line };
+    }
+
+    if (value.kind === 'symbol') {
+      return value.name === 'unspecified'
+        ? { name: name.name, value: value.name, kind: PaletteEntryKind.UNSPECIFIED, line }
+        : { name: name.name, value: value.name, kind: PaletteEntryKind.SEMANTIC, line };
+    }
+
+    throw new SourceParseError(
+      `Unsupported value for "${name.name}": expected a hex string or a color name`,
+      fileName,
+      value.location
+    );
+  }
+
+  /**
+   * Get the name of a symbol expression
+   *
+   * @param expression - Expression, possibly undefined
+   * @returns Symbol name or an empty string for non-symbols
+   */
+  private symbolName(expression: SExpression | undefined): string {
+    return expression && expression.kind === 'symbol' ? expression.name : '';
+  }
+}
+
+/**
+ * Modus theme source analyzer implementation
+ */
+export class ModusThemeAnalyzer implements IThemeAnalyzer {
+  private readonly colorTransformer: IColorTransformer;
+  private readonly colorResolver: IColorResolver;
+  private readonly paletteParser: IPaletteParser;
+  private readonly resolutionStack: string[] = [];
+  private activeTrace?: IColorResolutionStep[];
+
+  /**
+   * Construct a new Modus theme analyzer
+   */
+  constructor() {
+    this.paletteParser = new EmacsPaletteParser();
+    this.colorTransformer = new StandardColorTransformer();
+    this.colorResolver = new StandardColorResolver(
+      this.colorTransformer,
+      this.resolveColorReference.bind(this)
+    );
+  }
+
+  /**
+   * Analyze a Modus theme source file
+   *
+   * Unspecified entries are kept as semantic references to "unspecified",
+   * which resolve to no color.
+   *
+   * @param filePath - Path to the Modus theme file
+   * @returns Promise resolving to extracted color definitions
+   */
+  public async analyzeSource(filePath: string): Promise<IColor> {
+    const entries = await this.extractPaletteEntries(filePath);
+    const hex: Record<string, string> = {};
+    const semantic: Record<string, string> = {};
+
+    for (const entry of entries) {
+      if (entry.kind === PaletteEntryKind.HEX) {
+        hex[entry.name] = entry.value;
+      } else {
+        semantic[entry.name] = entry.value;
+      }
+    }
+
+    return { hex, semantic };
+  }
+
+  /**
+   * Extract the palette entries of a Modus theme file
+   *
+   * @param filePath - Path to the Modus theme file
+   * @returns Promise resolving to the palette entries with line numbers
+   */
+  public async extractPaletteEntries(filePath: string): Promise<IPaletteEntry[]> {
+    if (!filePath) {
+      throw new ThemeProcessingError('File path is required', 'INVALID_PATH');
+    }
+
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      return this.paletteParser.parsePalette(content, filePath);
+    } catch (error) {
+      if (error instanceof ThemeProcessingError) {
+        throw error;
+      }
+      throw new ThemeProcessingError(
+        `Failed to analyze theme source: ${error instanceof Error ? error.message : String(error)}`,
+        'PARSE_ERROR',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Load an upstream preset of palette overrides
+   *
+   * @param filePath - Path to the upstream modus-themes.el file
+   * @param preset - Preset to load
+   * @returns Promise resolving to the preset overrides
+   */
+  public async loadPreset(filePath: string, preset: PalettePreset): Promise<Record<string, string>> {
+    if (preset === PalettePreset.NONE) {
+      return {};
+    }
+
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      const entries = this.paletteParser.parseOverrides(
+        content,
+        filePath,
+        `modus-themes-preset-overrides-${preset}`
+      );
+
+      return Object.fromEntries(entries.map(entry => [entry.name, entry.value]));
+    } catch (error) {
+      if (error instanceof ThemeProcessingError) {
+        throw error;
+      }
+      throw new ThemeProcessingError(
+        `Failed to load palette preset "${preset}": ${error instanceof Error ? error.message : String(error)}`,
+        'PARSE_ERROR',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Load palette extensions from JSON file
+   *
+   * @param filePath - Path to extensions JSON file
+   * @returns Promise resolving to the palette extensions
+   */
+  public async loadExtensions(filePath: string): Promise<IColorPalette> {
+    try {
+      const content = await fs.readFile(filePath, 'utf8');
+      const extensions = JSON.parse(content) as IColorPalette;
+      return extensions;
+    } catch (error) {
+      return { hex: {}, semantic: {} };
+    }
+  }
+
+  /**
+   * Merge multiple color sources into unified palette
+   *
+   * @param base - Base color definitions
+   * @param extensions - Extension color definitions
+   * @param overrides - User override color definitions
+   * @param themeId - Target theme identifier
+   * @param preset - Preset overrides applied before user overrides
+   * @returns Unified color palette
+   */
+  public mergeColorSources(
+    base: IColor,
+    extensions: IColorPalette,
+    overrides: Record<string, string>,
+    themeId: string,
+    preset: Record<string, string> = {}
+  ): IColorPalette {
+    const origins: Record<string, PaletteSource> = {};
+    const result: IColorPalette = {
+      hex: { ...base.hex },
+      semantic: { ...base.semantic },
+      ...(extensions.variants && { variants: extensions.variants }),
+      themeId,
+      origins
+    };
+
+    for (const name of [...Object.keys(base.hex), ...Object.keys(base.semantic)]) {
+      origins[name] = PaletteSource.UPSTREAM;
+    }
+
+    Object.assign(result.hex, extensions.hex || {});
+    Object.assign(result.semantic, extensions.semantic || {});
+    for (const name of [...Object.keys(extensions.hex || {}), ...Object.keys(extensions.semantic || {})]) {
+      origins[name] = PaletteSource.EXTENSION;
+    }
+
+    if (extensions.variants && extensions.variants[themeId]) {
+      this.applyOverrideLayer(result, extensions.variants[themeId], PaletteSource.VARIANT);
+    }
+
+    this.applyOverrideLayer(result, preset, PaletteSource.PRESET);
+    this.applyOverrideLayer(result, overrides, PaletteSource.OVERRIDE);
+
+    return result;
+  }
+
+  /**
+   * Apply a layer of overrides on top of a palette
+   *
+   * Each override replaces the name outright: hex values are looked up before
+   * semantic references, so a reference or expression overriding a hex entry
+   * must also remove that entry, and vice versa.
+   *
+   * @param palette - Palette being merged, modified in place
+   * @param layer - Override color definitions
+   * @param source - Layer recorded as the origin of each entry
+   */
+  private applyOverrideLayer(palette: IColorPalette, layer: Record<string, string>, source: PaletteSource): void {
+    Object.entries(layer).forEach(([key, value]) => {
+      if (palette.origins) {
+        palette.origins[key] = source;
+      }
+
+      if (value.startsWith('#')) {
+        palette.hex[key] = value;
+        delete palette.semantic[key];
+      } else {
+        palette.semantic[key] = value;
+        delete palette.hex[key];
+      }
+    });
+  }
+
+  /**
+   * Resolve a symbolic color reference to its hex value
+   *
+   * @param name - Color name or reference
+   * @param palette - Color palette to resolve against
+   * @returns Resolved hex color value or undefined if not resolvable
+   * @throws {ThemeProcessingError} If the reference is unknown or circular
+   */
+  public resolveColorReference(name: string, palette: IColorPalette): string | undefined {
+    if (!name || name.trim() === '') {
+      return undefined;
+    }
+
+    if (name === 'unspecified') {
+      this.recordStep(name, ResolutionStepKind.UNSPECIFIED);
+      return undefined;
+    }
+
+    // Resolution recurses through semantic aliases, opacity references and
+    // color functions, the latter two by way of the color resolver. The
+    // stack spans all of them, so a cycle is caught whichever path closes
+    // it.
+    //
+    const cycleStart = this.resolutionStack.indexOf(name);
+    if (cycleStart !== -1) {
+      const chain = [...this.resolutionStack.slice(cycleStart), name].join(' -> ');
+      throw new ThemeProcessingError(
+        `Circular color reference: ${chain}`,
+        'COLOR_CYCLE_ERROR'
+      );
+    }
+
+    this.resolutionStack.push(name);
+    try {
+      return this.resolveColorReferenceStep(name, palette);
+    } finally {
+      this.resolutionStack.pop();
+    }
+  }
+
+  /**
+   * Resolve a color reference while recording every step taken
+   *
+   * @param name - Color name or reference
+   * @param palette - Color palette to resolve against
+   * @returns Resolution trace ending in the resolved hex color
+   * @throws {ThemeProcessingError} If the reference cannot be resolved
+   */
+  public traceColorReference(name: string, palette: IColorPalette): IColorResolutionTrace {
+    const previousTrace = this.activeTrace;
+    const steps: IColorResolutionStep[] = [];
+
+    this.activeTrace = steps;
+    try {
+      const result = this.resolveColorReference(name, palette);
+      return { reference: name, ...(result && { result }), steps };
+    } finally {
+      this.activeTrace = previousTrace;
+    }
+  }
+
+  /**
+   * Resolve a single reference whose cycle check has already been done
+   *
+   * @param name - Color name or reference
+   * @param palette - Color palette to resolve against
+   * @returns Resolved hex color value or undefined if not resolvable
+   * @throws {ThemeProcessingError} If the reference cannot be resolved
+   */
+  private resolveColorReferenceStep(name: string, palette: IColorPalette): string | undefined {
+    // Supports function syntax: "mix(bg-main, blue, 0.15)", "lighten(bg-dim,
+    // 5%)" and "darken(fg-main, 10%)", nested in any combination
+    //
+    if (name.includes('(')) {
+      const step = this.recordStep(name, ResolutionStepKind.EXPRESSION);
+      return this.completeStep(step, this.colorResolver.resolveColorExpression(name, palette));
+    }
+
+    // Supports opacity syntax: "color-name@opacity" where opacity is a value
+    // between 0 and 1 Example: "bg-dim@0.5" applies 50% opacity to the bg-dim
+    // color
+    //
+    if (name.includes('@')) {
+      const step = this.recordStep(name, ResolutionStepKind.OPACITY);
+      return this.completeStep(step, this.colorResolver.resolveColorWithOpacity(name, palette));
+    }
+
+    if (name.startsWith('#')) {
+      this.recordStep(name, ResolutionStepKind.LITERAL, name);
+      return name;
+    }
+
+    if (palette.hex[name]) {
+      this.recordStep(name, ResolutionStepKind.HEX, palette.hex[name]);
+      return palette.hex[name];
+    }
+
+    if (palette.semantic[name]) {
+      this.recordStep(name, ResolutionStepKind.SEMANTIC, palette.semantic[name]);
+      return this.resolveColorReference(palette.semantic[name], palette);
+    }
+
+    if (palette.variants) {
+      const variantColor = this.colorResolver.findAndResolveVariantColor(name, palette);
+      if (variantColor) {
+        this.recordStep(name, ResolutionStepKind.VARIANT, variantColor);
+        return this.resolveColorReference(variantColor, palette);
+      }
+    }
+
+    throw new ThemeProcessingError(
+      `Invalid color reference: "${name}" not found in palette`,
+      'COLOR_REFERENCE_ERROR'
+    );
+  }
+
+  /**
+   * Record a resolution step when a trace is active
+   *
+   * @param reference - Reference being resolved
+   * @param kind - How the reference is resolved
+   * @param value - Value the reference resolved to, if already known
+   * @returns The recorded step, or undefined when not tracing
+   */
+  private recordStep(
+    reference: string,
+    kind: ResolutionStepKind,
+    value?: string
+  ): { reference: string; kind: ResolutionStepKind; value?: string; depth: number } | undefined {
+    if (!this.activeTrace) {
+      return undefined;
+    }
+
+    const step = {
+      reference,
+      kind,
+      ...(value !== undefined && { value }),
+      depth: Math.max(0, this.resolutionStack.length - 1)
+    };
+    this.activeTrace.push(step);
+
+    return step;
+  }
+
+  /**
+   * Fill in the value of a step recorded before its nested steps
+   *
+   * @param step - Step returned by recordStep
+   * @param value - Value the reference resolved to
+   * @returns The value, for chaining
+   */
+  private completeStep(
+    step: { value?: string } | undefined,
+    value: string
+  ): string {
+    if (step) {
+      step.value = value;
+    }
+
+    return value;
+  }
+}
+
+/**
+ * Semantic selector parser implementation
+ *
+ * Follows VS Code's semantic token selector syntax: a token type or "*",
+ * followed by any number of ".modifier" segments and an optional ":language"
+ * qualifier, e.g. "variable.readonly", "*.deprecated" or "variable:rust".
+ */
+class SemanticSelectorParser implements ISemanticSelectorParser {
+  private static readonly SELECTOR_PATTERN =
+    /^(\*|[A-Za-z][\w-]*)((?:\.[A-Za-z][\w-]*)*)(?::([A-Za-z][\w-]*))?$/;
+
+  /**
+   * Parse a semantic token selector
+   *
+   * @param selector - Selector string (format: "type.modifier:language")
+   * @returns Parsed selector
+   * @throws {ThemeProcessingError} If the selector is malformed
+   */
+  public parse(selector: string): ISemanticSelector {
+    const match = SemanticSelectorParser.SELECTOR_PATTERN.exec(selector.trim());
+
+    if (!match) {
+      throw new ThemeProcessingError(
+        `Invalid semantic token selector: "${selector}"`,
+        'TOKEN_SELECTOR_ERROR'
+      );
+    }
+
+    const [, type, modifierPart, language] = match;
+    const modifiers = modifierPart
+      .split('.')
+      .filter(modifier => modifier !== '');
+
+    return {
+      type,
+      modifiers: [...new Set(modifiers)],
+      ...(language && { language })
+    };
+  }
+
+  /**
+   * Format a parsed selector back into its string form
+   *
+   * @param selector - Parsed selector
+   * @returns Selector string (format: "type.modifier:language")
+   */
+  public format(selector: ISemanticSelector): string {
+    const modifiers = selector.modifiers.map(modifier => `.${modifier}`).join('');
+    const language = selector.language ? `:${selector.language}` : '';
+
+    return `${selector.type}${modifiers}${language}`;
+  }
+}
+
+/**
+ * Theme factory implementation
+ */
+export class VSCodeThemeFactory implements IThemeFactory {
+  /** Font style keywords understood by VS Code */
+  private static readonly FONT_STYLES: ReadonlyArray<string> = Object.freeze([
+    'bold',
+    'italic',
+    'underline',
+    'strikethrough'
+  ]);
+
+  private readonly analyzer: IThemeAnalyzer;
+  private readonly selectorParser: ISemanticSelectorParser;
+
+  /**
+   * Construct new theme factory
+   *
+   * @param analyzer - Theme analyzer for color resolution
+   */
+  constructor(analyzer: IThemeAnalyzer) {
+    this.analyzer = analyzer;
+    this.selectorParser = new SemanticSelectorParser();
+  }
+
+  /**
+   * Synthesize theme from components
+   *
+   * @param theme - Theme definition metadata
+   * @param palette - Color palette for token and editor coloring
+   * @param editorMappings - Editor element color assignments
+   * @param tokenMappings - Token color assignments
+   * @returns Constructed theme
+   */
+  public synthesizeTheme(
+    theme: IThemeDefinition,
+    palette: IColorPalette,
+    editorMappings: IEditorMapping[],
+    tokenMappings: ITokenMapping[]
+  ): IThemeVSC {
+    const { id, name, type } = theme;
+
+    const colors = this.createEditorColorMap(editorMappings, palette);
+    const { textMateTokens, semanticTokens } = this.createTokenMappings(tokenMappings, palette);
+
+    return {
+      id,
+      name,
+      type,
+      colors,
+      tokens: {
+        textMate: textMateTokens,
+        semantic: semanticTokens
+      }
+    };
+  }
+
+  /**
+   * Create editor color mapping from element definitions
+   *
+   * @param editorMappings - Editor element mappings
+   * @param palette - Color palette
+   * @returns Record of editor element IDs to resolved colors
+   */
+  private createEditorColorMap(
+    editorMappings: IEditorMapping[],
+    palette: IColorPalette
+  ): Record<string, string> {
+    const colorMap: Record<string, string> = {};
+
+    for (const mapping of editorMappings) {
+      try {
+        if (!mapping.color || mapping.color.trim() === '') {
+          continue;
+        }
+
+        // An override keyed by the element id replaces the mapped color, so
+        // elements whose mapping is an expression can still be customized.
+        //
+        const reference = palette.origins?.[mapping.element] === PaletteSource.OVERRIDE
+          ? mapping.element
+          : mapping.color;
+        const resolvedColor = this.analyzer.resolveColorReference(reference, palette);
+        if (resolvedColor) {
+          colorMap[mapping.element] = resolvedColor;
+        }
+      } catch (error) {
+        // A cycle is a configuration error rather than a missing color, so it
+        // fails the theme instead of silently dropping the element.
+        //
+        if (error instanceof ThemeProcessingError && error.code === 'COLOR_CYCLE_ERROR') {
+          throw error;
+        }
+        console.error(`Error resolving color for editor element "${mapping.element}":`, error);
+      }
+    }
+
+    return colorMap;
+  }
+
+  /**
+   * Create token mappings organized by token system
+   *
+   * @param tokenMappings - Token mappings
+   * @param palette - Color palette
+   * @returns Object containing TextMate and semantic tokens
+   */
+  private createTokenMappings(
+    tokenMappings: ITokenMapping[],
+    palette: IColorPalette
+  ): { textMateTokens: ITextMateToken[], semanticTokens: ISemanticToken[] } {
+    const textMateTokens: ITextMateToken[] = [];
+    const semanticTokens: ISemanticToken[] = [];
+
+    for (const mapping of tokenMappings) {
+      try {
+        const style = this.resolveTokenStyle(mapping, palette);
+        if (!style) {
+          continue;
+        }
+
+        if (mapping.system === TokenSystem.SEMANTIC) {
+          const selector = this.selectorParser.parse(mapping.scopeOrType);
+          semanticTokens.push(this.createSemanticToken(selector, style));
+        } else {
+          textMateTokens.push(this.createTextMateToken(mapping.scopeOrType, style));
+        }
+      } catch (error) {
+        if (error instanceof ThemeProcessingError && error.code === 'COLOR_CYCLE_ERROR') {
+          throw error;
+        }
+        console.error(`Error resolving color for token "${mapping.scopeOrType}":`, error);
+      }
+    }
+
+    return {
+      textMateTokens: this.orderBySpecificity(textMateTokens),
+      semanticTokens
+    };
+  }
+
+  /**
+   * Order TextMate rules from general to specific
+   *
+   * VS Code gives precedence to later rules when selectors tie, so general
+   * scopes are emitted first and specific ones override them. The sort is
+   * stable, preserving file order within the same specificity.
+   *
+   * @param tokens - TextMate tokens
+   * @returns TextMate tokens ordered by ascending specificity
+   */
+  private orderBySpecificity(tokens: ITextMateToken[]): ITextMateToken[] {
+    const specificity = (token: ITextMateToken): number => {
+      const selectors = Array.isArray(token.scope) ? token.scope : [token.scope];
+      return Math.min(...selectors.map(selector =>
+        selector
+          .split(' - ')[0]
+          .trim()
+          .split(/\s+/)
+          .reduce((total, scope) => total + scope.split('.').length, 0)
+      ));
+    };
+
+    return tokens
+      .map((token, index) => ({ token, index, rank: specificity(token) }))
+      .sort((a, b) => a.rank - b.rank || a.index - b.index)
+      .map(({ token }) => token);
+  }
+
+  /**
+   * Resolve the color references and font style of a token mapping
+   *
+   * @param mapping - Token mapping
+   * @param palette - Color palette
+   * @returns Resolved token style or undefined if the mapping is empty
+   * @throws {ThemeProcessingError} If a reference or font style is invalid
+   */
+  private resolveTokenStyle(mapping: ITokenMapping, palette: IColorPalette): ITokenStyle | undefined {
+    const foreground = mapping.color && mapping.color.trim() !== ''
+      ? this.analyzer.resolveColorReference(mapping.color, palette)
+      : undefined;
+
+    const background = mapping.background && mapping.background.trim() !== ''
+      ? this.analyzer.resolveColorReference(mapping.background, palette)
+      : undefined;
+
+    const fontStyle = mapping.fontStyle !== undefined
+      ? this.normalizeFontStyle(mapping.fontStyle, mapping.scopeOrType)
+      : undefined;
+
+    if (!foreground && !background && fontStyle === undefined) {
+      return undefined;
+    }
+
+    return {
+      ...(foreground && { foreground }),
+      ...(fontStyle !== undefined && { fontStyle }),
+      ...(background && { background })
+    };
+  }
+
+  /**
+   * Validate and normalize a font style specification
+   *
+   * An empty string is preserved since it explicitly resets inherited font
+   * styles in VS Code.
+   *
+   * @param fontStyle - Space-separated font style keywords
+   * @param scopeOrType - Token identifier for error context
+   * @returns Normalized font style keywords
+   * @throws {ThemeProcessingError} If an unknown keyword is used
+   */
+  private normalizeFontStyle(fontStyle: string, scopeOrType: string): string {
+    const keywords = fontStyle.split(/\s+/).filter(keyword => keyword !== '');
+
+    for (const keyword of keywords) {
+      if (!VSCodeThemeFactory.FONT_STYLES.includes(keyword)) {
+        throw new ThemeProcessingError(
+          `Invalid font style "${keyword}" for token "${scopeOrType}"`,
+          'TOKEN_STYLE_ERROR'
+        );
+      }
+    }
+
+    return [...new Set(keywords)].join(' ');
+  }
+
+  /**
+   * Create semantic token from selector and style
+   *
+   * @param selector - Parsed semantic token selector
+   * @param style - Resolved token style
+   * @returns Semantic token object
+   */
+  private createSemanticToken(selector: ISemanticSelector, style: ITokenStyle): ISemanticToken {
+    return {
+      type: selector.type,
+      modifiers: selector.modifiers,
+      ...(selector.language && { language: selector.language }),
+      selector: this.selectorParser.format(selector),
+      style: style.fontStyle === undefined && style.background === undefined && style.foreground
+        ? style.foreground
+        : style
+    };
+  }
+
+  /**
+   * Create TextMate token from selector and style
+   *
+   * The selector may list several comma-separated scope selectors, each of
+   * which may be a descendant selector ("meta.embedded string") and may
+   * carry exclusions ("string - string.regexp").
+   *
+   * @param selector - TextMate scope selector
+   * @param style - Resolved token style
+   * @returns TextMate token object
+   * @throws {ThemeProcessingError} If the selector is empty
+   */
+  private createTextMateToken(selector: string, style: ITokenStyle): ITextMateToken {
+    const scope = selector
+      .split(',')
+      .map(part => part.trim().replace(/\s+/g, ' '))
+      .filter(part => part !== '');
+
+    if (scope.length === 0 || scope.some(part => part.startsWith('-'))) {
+      throw new ThemeProcessingError(
+        `Invalid TextMate scope selector: "${selector}"`,
+        'TOKEN_SELECTOR_ERROR'
+      );
+    }
+
+    return {
+      scope,
+      style
+    };
+  }
+}
+
+/**
+ * Theme serialization implementation
+ */
+export class VSCodeThemeSerializer implements IThemeSerializer {
+  /**
+   * Serialize a theme to VS Code's format specification
+   *
+   * @param theme - Internal theme representation
+   * @returns VS Code compatible theme object
+   */
+  public serialize(theme: IThemeVSC): ISerializedTheme {
+    return {
+      "$schema": "vscode://schemas/color-theme",
+
+      name: theme.name,
+      type: theme.type,
+      colors: theme.colors,
+
+      semanticHighlighting: true,
+
+      tokenColors: theme.tokens.textMate.flatMap(token =>
+        this.serializeTextMateToken(token, theme.colors['editor.foreground'])
+      ),
+
+      semanticTokenColors: Object.fromEntries(
+        theme.tokens.semantic.map(token => [
+          token.selector,
+          this.serializeSemanticStyle(token.style)
+        ])
+      )
+    };
+  }
+
+  /**
+   * Serialize a TextMate token into one or more tokenColors rules
+   *
+   * VS Code does not understand TextMate exclusions ("string - meta.embedded"),
+   * so each excluded scope is expressed as a descendant rule that resets the
+   * style back to the editor foreground. Rules nested deeper inside the
+   * excluded scope still take precedence over the reset.
+   *
+   * @param token - TextMate token
+   * @param defaultForeground - Editor foreground used to reset exclusions
+   * @returns VS Code compatible tokenColors rules
+   */
+  private serializeTextMateToken(token: ITextMateToken, defaultForeground?: string): ITokenColorRule[] {
+    const settings: ITokenStyle = typeof token.style === 'string'
+      ? { foreground: token.style }
+      : token.style;
+
+    const selectors = Array.isArray(token.scope) ? token.scope : [token.scope];
+    const scope: string[] = [];
+    const resetScope: string[] = [];
+
+    for (const selector of selectors) {
+      const [included, ...excluded] = selector.split(' - ').map(part => part.trim());
+      scope.push(included);
+      resetScope.push(...excluded.map(exclusion => `${included} ${exclusion}`));
+    }
+
+    const rules: ITokenColorRule[] = [{ scope, settings }];
+
+    if (resetScope.length > 0) {
+      const resetSettings: ITokenStyle = {
+        ...(settings.foreground && defaultForeground && { foreground: defaultForeground }),
+        ...(settings.fontStyle !== undefined && { fontStyle: '' })
+      };
+
+      if (Object.keys(resetSettings).length > 0) {
+        rules.push({ scope: resetScope, settings: resetSettings });
+      }
+    }
+
+    return rules;
+  }
+
+  /**
+   * Serialize a semantic token style
+   *
+   * Semantic token rules have no background attribute, so it is dropped here
+   * and left to the TextMate rules. A style that only carries a foreground is
+   * written in the shorthand color form.
+   *
+   * @param style - Token style
+   * @returns VS Code compatible semantic token style
+   */
+  private serializeSemanticStyle(style: IToken['style']): string | ITokenStyle {
+    if (typeof style === 'string') {
+      return style;
+    }
+
+    const { foreground, fontStyle } = style;
+    if (fontStyle === undefined && foreground) {
+      return foreground;
+    }
+
+    return {
+      ...(foreground && { foreground }),
+      ...(fontStyle !== undefined && { fontStyle })
+    };
+  }
+}
+
+/**
+ * Editor colors shared by TextMate-derived color scheme formats
+ */
+abstract class TextMateColorSchemeSerializer implements IColorSchemeSerializer {
+  public abstract readonly format: ColorSchemeFormat;
+  public abstract readonly label: string;
+  public abstract readonly fileExtension: string;
+
+  /**
+   * Serialize a theme's TextMate rules and editor colors
+   *
+   * @param theme - Internal theme representation
+   * @returns File contents
+   */
+  public abstract serialize(theme: IThemeVSC): string;
+
+  /**
+   * Collect the editor colors the format carries in its global settings
+   *
+   * @param theme - Internal theme representation
+   * @returns Background, foreground, caret and selection colors, where set
+   */
+  protected globalColors(theme: IThemeVSC): Record<'background' | 'foreground' | 'caret' | 'selection', string | undefined> {
+    const foreground = theme.colors['editor.foreground'];
+
+    return {
+      background: theme.colors['editor.background'],
+      foreground,
+      caret: theme.colors['editorCursor.foreground'] ?? foreground,
+      selection: theme.colors['editor.selectionBackground']
+    };
+  }
+
+  /**
+   * Normalize a TextMate token into its selector and style
+   *
+   * Exclusions ("string - meta.embedded") are part of the selector syntax
+   * of these formats and are kept as written.
+   *
+   * @param token - TextMate token
+   * @returns Comma-separated scope selector and style
+   */
+  protected normalizeToken(token: ITextMateToken): { scope: string; style: ITokenStyle } {
+    return {
+      scope: Array.isArray(token.scope) ? token.scope.join(', ') : token.scope,
+      style: typeof token.style === 'string' ? { foreground: token.style } : token.style
+    };
+  }
+}
+
+/**
+ * TextMate .tmTheme (property list) serializer
+ */
+export class TmThemeSerializer extends TextMateColorSchemeSerializer {
+  public readonly format = ColorSchemeFormat.TM_THEME;
+  public readonly label = 'TextMate';
+  public readonly fileExtension = 'tmTheme';
+
+  /**
+   * Serialize a theme as a TextMate property list
+   *
+   * @param theme - Internal theme representation
+   * @returns XML file contents
+   */
+  public serialize(theme: IThemeVSC): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE plist PUBLIC "-//Apple//DTD PLIST 1.0//EN" "http://www.apple.com/DTDs/PropertyList-1.0.dtd">',
+      '<plist version="1.0">',
+      '<dict>',
+      ...this.entry('name', theme.name, 1),
+      '  <key>settings</key>',
+      '  <array>',
+      ...this.rule(undefined, this.globalColors(theme)),
+      ...theme.tokens.textMate.flatMap(token => {
+        const { scope, style } = this.normalizeToken(token);
+        return this.rule(scope, { ...style });
+      }),
+      '  </array>',
+      '</dict>',
+      '</plist>',
+      ''
+    ];
+
+    return lines.join('\n');
+  }
+
+  /**
+   * Render a settings array item, with a scope unless it holds the globals
+   *
+   * @param scope - Scope selector, undefined for the global settings
+   * @param settings - Setting values, undefined ones are omitted
+   * @returns XML lines
+   */
+  private rule(scope: string | undefined, settings: Record<string, string | undefined>): string[] {
+    return [
+      '    <dict>',
+      ...(scope === undefined ? [] : this.entry('scope', scope, 3)),
+      '      <key>settings</key>',
+      '      <dict>',
+      ...Object.entries(settings).flatMap(([key, value]) => value === undefined ? [] : this.entry(key, value, 4)),
+      '      </dict>',
+      '    </dict>'
+    ];
+  }
+
+  /**
+   * Render a string-valued property list entry
+   *
+   * @param key - Entry key
+   * @param value - Entry value
+   * @param depth - Indentation depth
+   * @returns XML lines
+   */
+  private entry(key: string, value: string, depth: number): string[] {
+    const indent = '  '.repeat(depth);
+    return [`${indent}<key>${this.escape(key)}</key>`, `${indent}<string>${this.escape(value)}</string>`];
+  }
+
+  /**
+   * Escape XML special characters
+   *
+   * @param text - Raw text
+   * @returns Escaped text
+   */
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  }
+}
+
+/**
+ * Sublime Text .sublime-color-scheme serializer
+ */
+export class SublimeColorSchemeSerializer extends TextMateColorSchemeSerializer {
+  /** Font styles Sublime Text understands; others are dropped */
+  private static readonly FONT_STYLES: ReadonlyArray<string> = Object.freeze(['bold', 'italic', 'underline']);
+
+  public readonly format = ColorSchemeFormat.SUBLIME_COLOR_SCHEME;
+  public readonly label = 'Sublime Text';
+  public readonly fileExtension = 'sublime-color-scheme';
+
+  /**
+   * Serialize a theme as a Sublime Text color scheme
+   *
+   * @param theme - Internal theme representation
+   * @returns JSON file contents
+   */
+  public serialize(theme: IThemeVSC): string {
+    return JSON.stringify({
+      name: theme.name,
+      globals: this.globalColors(theme),
+      rules: theme.tokens.textMate.map(token => {
+        const { scope, style } = this.normalizeToken(token);
+
+        return {
+          scope,
+          ...(style.foreground && { foreground: style.foreground }),
+          ...(style.background && { background: style.background }),
+          ...(style.fontStyle !== undefined && { font_style: this.convertFontStyle(style.fontStyle) })
+        };
+      })
+    }, null, 2) + '\n';
+  }
+
+  /**
+   * Keep the font style words Sublime Text supports
+   *
+   * @param fontStyle - VS Code font style, e.g. "italic underline"
+   * @returns Sublime Text font style
+   */
+  private convertFontStyle(fontStyle: string): string {
+    return fontStyle
+      .split(/\s+/)
+      .filter(style => SublimeColorSchemeSerializer.FONT_STYLES.includes(style))
+      .join(' ');
+  }
+}
+
+/**
+ * Structural validator for serialized VS Code themes
+ *
+ * Catches output VS Code would silently ignore or half-apply, such as a
+ * missing section or a color that never resolved to hex, before it replaces
+ * a working theme file.
+ */
+export class VSCodeThemeValidator implements IThemeValidator {
+  /** Hex notations VS Code accepts in theme files */
+  private static readonly HEX_PATTERN = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+  /**
+   * Check a serialized theme before it is written
+   *
+   * @param serialized - Serialized theme, as parsed back from its file contents
+   * @returns Problems found, empty if the theme is valid
+   */
+  public validate(serialized: unknown): string[] {
+    if (!this.isObject(serialized)) {
+      return ['theme is not an object'];
+    }
+
+    const problems: string[] = [];
+
+    if (typeof serialized.name !== 'string' || serialized.name.length === 0) {
+      problems.push('missing "name"');
+    }
+    if (serialized.type !== ThemeType.LIGHT && serialized.type !== ThemeType.DARK) {
+      problems.push(`invalid "type" ${JSON.stringify(serialized.type)}`);
+    }
+
+    if (!this.isObject(serialized.colors)) {
+      problems.push('missing "colors"');
+    } else {
+      for (const [element, color] of Object.entries(serialized.colors)) {
+        this.checkColor(color, `colors["${element}"]`, problems);
+      }
+    }
+
+    if (!Array.isArray(serialized.tokenColors)) {
+      problems.push('missing "tokenColors"');
+    } else {
+      serialized.tokenColors.forEach((rule: unknown, index: number) => {
+        const location = `tokenColors[${index}]`;
+        if (!this.isObject(rule) || !this.isObject(rule.settings)) {
+          problems.push(`${location} has no "settings"`);
+          return;
+        }
+        this.checkStyle(rule.settings, location, problems);
+      });
+    }
+
+    if (!this.isObject(serialized.semanticTokenColors)) {
+      problems.push('missing "semanticTokenColors"');
+    } else {
+      for (const [selector, style] of Object.entries(serialized.semanticTokenColors)) {
+        const location = `semanticTokenColors["${selector}"]`;
+        if (this.isObject(style)) {
+          this.checkStyle(style, location, problems);
+        } else {
+          this.checkColor(style, location, problems);
+        }
+      }
+    }
+
+    return problems;
+  }
+
+  /**
+   * Check the colors of a token style
+   *
+   * @param style - Token style object
+   * @param location - Position of the style in the theme, for messages
+   * @param problems - Collected problems
+   */
+  private checkStyle(style: Record<string, unknown>, location: string, problems: string[]): void {
+    for (const attribute of ['foreground', 'background']) {
+      if (style[attribute] !== undefined) {
+        this.checkColor(style[attribute], `${location}.${attribute}`, problems);
+      }
+    }
+  }
+
+  /**
+   * Check that a value is a hex color
+   *
+   * @param color - Value to check
+   * @param location - Position of the value in the theme, for messages
+   * @param problems - Collected problems
+   */
+  private checkColor(color: unknown, location: string, problems: string[]): void {
+    if (typeof color !== 'string' || !VSCodeThemeValidator.HEX_PATTERN.test(color)) {
+      problems.push(`${location} is not a hex color: ${JSON.stringify(color)}`);
+    }
+  }
+
+  /**
+   * Check whether a value is a plain object
+   *
+   * @param value - Value to check
+   * @returns True if the value is a non-null, non-array object
+   */
+  private isObject(value: unknown): value is Record<string, any> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+}
+
+/**
+ * Builder of terminal color schemes from merged theme palettes
+ *
+ * Each ANSI color comes from the upstream "fg-term-*" mapping of the palette
+ * when it resolves, and otherwise from the matching base hue: the normal
+ * color from the hue itself, the bright one from its warmer or cooler
+ * variant. Black and white have no hue and fall back to upstream's fixed
+ * terminal values. Overrides are part of the merged palette and so apply.
+ */
+export class TerminalSchemeBuilder {
+  /** ANSI color names in terminal order */
+  public static readonly ANSI_NAMES: ReadonlyArray<string> = Object.freeze([
+    'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white'
+  ]);
+
+  /** Fallback for each ANSI color when its fg-term-* mapping is absent */
+  private static readonly NORMAL_FALLBACKS: Readonly<Record<string, string>> = Object.freeze({
+    black: '#000000',
+    red: 'red',
+    green: 'green',
+    yellow: 'yellow',
+    blue: 'blue',
+    magenta: 'magenta',
+    cyan: 'cyan',
+    white: '#a6a6a6'
+  });
+
+  /** Fallback for each bright ANSI color when its fg-term-* mapping is absent */
+  private static readonly BRIGHT_FALLBACKS: Readonly<Record<string, string>> = Object.freeze({
+    black: '#595959',
+    red: 'red-warmer',
+    green: 'green-cooler',
+    yellow: 'yellow-warmer',
+    blue: 'blue-warmer',
+    magenta: 'magenta-cooler',
+    cyan: 'cyan-cooler',
+    white: '#ffffff'
+  });
+
+  private readonly analyzer: IThemeAnalyzer;
+
+  /**
+   * Construct a new terminal scheme builder
+   *
+   * @param analyzer - Theme analyzer used to resolve palette references
+   */
+  constructor(analyzer: IThemeAnalyzer) {
+    this.analyzer = analyzer;
+  }
+
+  /**
+   * Build the terminal color scheme of a synthesized theme
+   *
+   * @param synthesis - Synthesized theme with its merged palette
+   * @returns Terminal color scheme
+   * @throws {ThemeProcessingError} If a color resolves through none of its candidates
+   */
+  public build(synthesis: IThemeSynthesis): ITerminalScheme {
+    const resolve = (...candidates: string[]) => this.resolveFirst(candidates, synthesis.palette);
+
+    const ansi = [
+      ...TerminalSchemeBuilder.ANSI_NAMES.map(name =>
+        resolve(`fg-term-${name}`, TerminalSchemeBuilder.NORMAL_FALLBACKS[name])
+      ),
+      ...TerminalSchemeBuilder.ANSI_NAMES.map(name =>
+        resolve(`fg-term-${name}-bright`, TerminalSchemeBuilder.BRIGHT_FALLBACKS[name])
+      )
+    ];
+
+    return {
+      name: synthesis.definition.name,
+      foreground: resolve('fg-main'),
+      background: resolve('bg-main'),
+      cursor: resolve('cursor', 'fg-main'),
+      selectionForeground: resolve('fg-main'),
+      selectionBackground: resolve('bg-region', 'bg-active'),
+      ansi
+    };
+  }
+
+  /**
+   * Resolve the first candidate that resolves against the palette
+   *
+   * Terminals have no notion of transparency, so any alpha channel is
+   * dropped from the result.
+   *
+   * @param candidates - Palette references or hex colors, in preference order
+   * @param palette - Merged palette
+   * @returns Opaque hex color
+   * @throws {ThemeProcessingError} If no candidate resolves
+   */
+  private resolveFirst(candidates: string[], palette: IColorPalette): string {
+    for (const candidate of candidates) {
+      if (/^#[0-9a-f]{6}$/i.test(candidate)) {
+        return candidate;
+      }
+
+      try {
+        const hex = this.analyzer.resolveColorReference(candidate, palette);
+        if (hex) {
+          return hex.slice(0, 7);
+        }
+      } catch {
+        continue;
+      }
+    }
+
+    throw new ThemeProcessingError(
+      `None of ${candidates.join(', ')} resolves to a color`,
+      'COLOR_RESOLUTION_ERROR'
+    );
+  }
+}
+
+/**
+ * Alacritty TOML color scheme exporter
+ */
+export class AlacrittyExporter implements ITerminalExporter {
+  public readonly format = TerminalFormat.ALACRITTY;
+  public readonly label = 'Alacritty';
+  public readonly fileExtension = 'toml';
+
+  /**
+   * Write a terminal color scheme as an Alacritty colors table
+   *
+   * @param scheme - Resolved terminal color scheme
+   * @returns TOML file contents
+   */
+  public export(scheme: ITerminalScheme): string {
+    const table = (name: string, entries: Array<[string, string]>) => [
+      `[colors.${name}]`,
+      ...entries.map(([key, color]) => `${key} = "${color}"`),
+      ''
+    ];
+    const ansi = (offset: number) => TerminalSchemeBuilder.ANSI_NAMES.map(
+      (name, index): [string, string] => [name, scheme.ansi[offset + index]]
+    );
+
+    return [
+      `# ${scheme.name}`,
+      '',
+      ...table('primary', [['background', scheme.background], ['foreground', scheme.foreground]]),
+      ...table('cursor', [['text', scheme.background], ['cursor', scheme.cursor]]),
+      ...table('selection', [['text', scheme.selectionForeground], ['background', scheme.selectionBackground]]),
+      ...table('normal', ansi(0)),
+      ...table('bright', ansi(8))
+    ].join('\n');
+  }
+}
+
+/**
+ * kitty color scheme exporter
+ */
+export class KittyExporter implements ITerminalExporter {
+  public readonly format = TerminalFormat.KITTY;
+  public readonly label = 'kitty';
+  public readonly fileExtension = 'conf';
+
+  /**
+   * Write a terminal color scheme as kitty color options
+   *
+   * @param scheme - Resolved terminal color scheme
+   * @returns kitty.conf include contents
+   */
+  public export(scheme: ITerminalScheme): string {
+    return [
+      `# ${scheme.name}`,
+      '',
+      `foreground ${scheme.foreground}`,
+      `background ${scheme.background}`,
+      `cursor ${scheme.cursor}`,
+      `cursor_text_color ${scheme.background}`,
+      `selection_foreground ${scheme.selectionForeground}`,
+      `selection_background ${scheme.selectionBackground}`,
+      '',
+      ...scheme.ansi.map((color, index) => `color${index} ${color}`),
+      ''
+    ].join('\n');
+  }
+}
+
+/**
+ * Windows Terminal color scheme exporter
+ */
+export class WindowsTerminalExporter implements ITerminalExporter {
+  public readonly format = TerminalFormat.WINDOWS_TERMINAL;
+  public readonly label = 'Windows Terminal';
+  public readonly fileExtension = 'json';
+
+  /**
+   * Write a terminal color scheme as a Windows Terminal "schemes" entry
+   *
+   * Windows Terminal calls magenta "purple".
+   *
+   * @param scheme - Resolved terminal color scheme
+   * @returns JSON file contents
+   */
+  public export(scheme: ITerminalScheme): string {
+    const names = TerminalSchemeBuilder.ANSI_NAMES.map(name => name === 'magenta' ? 'purple' : name);
+
+    return JSON.stringify({
+      name: scheme.name,
+      background: scheme.background,
+      foreground: scheme.foreground,
+      cursorColor: scheme.cursor,
+      selectionBackground: scheme.selectionBackground,
+      ...Object.fromEntries(names.map((name, index) => [name, scheme.ansi[index]])),
+      ...Object.fromEntries(names.map((name, index) => [
+        `bright${name[0].toUpperCase()}${name.slice(1)}`,
+        scheme.ansi[index + 8]
+      ]))
+    }, null, 2) + '\n';
+  }
+}
+
+/**
+ * foot color scheme exporter
+ */
+export class FootExporter implements ITerminalExporter {
+  public readonly format = TerminalFormat.FOOT;
+  public readonly label = 'foot';
+  public readonly fileExtension = 'ini';
+
+  /**
+   * Write a terminal color scheme as foot's colors and cursor sections
+   *
+   * foot expects colors without the leading "#".
+   *
+   * @param scheme - Resolved terminal color scheme
+   * @returns foot.ini include contents
+   */
+  public export(scheme: ITerminalScheme): string {
+    const bare = (color: string) => color.slice(1);
+
+    return [
+      `# ${scheme.name}`,
+      '',
+      '[cursor]',
+      `color=${bare(scheme.background)} ${bare(scheme.cursor)}`,
+      '',
+      '[colors]',
+      `foreground=${bare(scheme.foreground)}`,
+      `background=${bare(scheme.background)}`,
+      `selection-foreground=${bare(scheme.selectionForeground)}`,
+      `selection-background=${bare(scheme.selectionBackground)}`,
+      ...scheme.ansi.slice(0, 8).map((color, index) => `regular${index}=${bare(color)}`),
+      ...scheme.ansi.slice(8).map((color, index) => `bright${index}=${bare(color)}`),
+      ''
+    ].join('\n');
+  }
+}
+
+/**
+ * Xresources color scheme exporter
+ */
+export class XresourcesExporter implements ITerminalExporter {
+  public readonly format = TerminalFormat.XRESOURCES;
+  public readonly label = 'Xresources';
+  public readonly fileExtension = 'Xresources';
+
+  /**
+   * Write a terminal color scheme as X resources
+   *
+   * @param scheme - Resolved terminal color scheme
+   * @returns Xresources file contents
+   */
+  public export(scheme: ITerminalScheme): string {
+    return [
+      `! ${scheme.name}`,
+      '',
+      `*.foreground: ${scheme.foreground}`,
+      `*.background: ${scheme.background}`,
+      `*.cursorColor: ${scheme.cursor}`,
+      '',
+      ...scheme.ansi.map((color, index) => `*.color${index}: ${color}`),
+      ''
+    ].join('\n');
+  }
+}
+
+/**
+ * CSS custom properties exporter for webviews and documentation
+ *
+ * Writes one rule per theme, scoped by a data-modus-theme attribute, holding
+ * the resolved palette as --modus-<name> and the resolved workbench colors
+ * as --modus-<id>, with dots in color ids turned into dashes as VS Code does
+ * for its own webview variables.
+ */
+export class CssCustomPropertiesExporter {
+  private readonly analyzer: IThemeAnalyzer;
+
+  /**
+   * Construct a new CSS custom properties exporter
+   *
+   * @param analyzer - Theme analyzer used to resolve palette references
+   */
+  constructor(analyzer: IThemeAnalyzer) {
+    this.analyzer = analyzer;
+  }
+
+  /**
+   * Write the custom properties of every theme
+   *
+   * With a pairing, the light and dark themes also apply to documents
+   * without a data-modus-theme attribute according to prefers-color-scheme.
+   *
+   * @param syntheses - Synthesized themes
+   * @param pairing - Ids of the themes following the system color scheme
+   * @returns Stylesheet contents
+   */
+  public export(syntheses: IThemeSynthesis[], pairing?: { light: string; dark: string }): string {
+    const blocks = syntheses.map(synthesis =>
+      this.rule(`[data-modus-theme="${synthesis.definition.id}"]`, synthesis, '')
+    );
+
+    if (pairing) {
+      for (const [scheme, themeId] of [['light', pairing.light], ['dark', pairing.dark]]) {
+        const synthesis = syntheses.find(candidate => candidate.definition.id === themeId);
+        if (!synthesis) {
+          throw new ThemeProcessingError(`Unknown theme for ${scheme} pairing: ${themeId}`, 'INVALID_THEME');
+        }
+
+        blocks.push([
+          `@media (prefers-color-scheme: ${scheme}) {`,
+          this.rule(':root:not([data-modus-theme])', synthesis, '  '),
+          '}'
+        ].join('\n'));
+      }
+    }
+
+    return blocks.join('\n\n') + '\n';
+  }
+
+  /**
+   * Render the rule of one theme
+   *
+   * @param selector - Rule selector
+   * @param synthesis - Synthesized theme
+   * @param indent - Indentation of the rule
+   * @returns CSS rule
+   */
+  private rule(selector: string, synthesis: IThemeSynthesis, indent: string): string {
+    const declaration = ([name, value]: [string, string]) => `${indent}  --modus-${this.identifier(name)}: ${value};`;
+
+    return [
+      `${indent}/* ${synthesis.definition.name} */`,
+      `${indent}${selector} {`,
+      `${indent}  color-scheme: ${synthesis.definition.type};`,
+      '',
+      `${indent}  /* Palette */`,
+      ...this.resolvePalette(synthesis.palette).map(declaration),
+      '',
+      `${indent}  /* Workbench colors */`,
+      ...Object.entries(synthesis.theme.colors).map(declaration),
+      `${indent}}`
+    ].join('\n');
+  }
+
+  /**
+   * Resolve every palette entry a theme can reference
+   *
+   * Entries that do not resolve, such as references left dangling by a
+   * variant block, are skipped.
+   *
+   * @param palette - Merged palette
+   * @returns Palette names with their hex values, in palette order
+   */
+  private resolvePalette(palette: IColorPalette): Array<[string, string]> {
+    const names = new Set([
+      ...Object.keys(palette.hex),
+      ...Object.keys(palette.semantic),
+      ...Object.keys((palette.themeId && palette.variants?.[palette.themeId]) || {})
+    ]);
+    const resolved: Array<[string, string]> = [];
+
+    for (const name of names) {
+      try {
+        const hex = this.analyzer.resolveColorReference(name, palette);
+        if (hex) {
+          resolved.push([name, hex]);
+        }
+      } catch {
+        continue;
+      }
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Turn a palette name or color id into a custom property identifier
+   *
+   * @param name - Palette name or workbench color id
+   * @returns Identifier with anything but letters, digits, dashes and
+   * underscores replaced by dashes
+   */
+  private identifier(name: string): string {
+    return name.replace(/[^A-Za-z0-9_-]/g, '-');
+  }
+}
+
+/**
+ * WCAG 2.x contrast auditor implementation
+ */
+export class WcagContrastAuditor implements IContrastAuditor {
+  private readonly transformer: IColorTransformer;
+  public readonly minimumRatio: number;
+
+  /**
+   * Known foreground/background element pairs of the workbench
+   *
+   * Translucent backgrounds are composited over their backdrop element before
+   * comparison, which defaults to the editor background.
+   */
+  private readonly elementPairs: ReadonlyArray<{
+    readonly foreground: string;
+    readonly background: string;
+    readonly backdrop?: string;
+  }> = Object.freeze([
+    { foreground: 'editor.foreground',                    background: 'editor.background' },
+    { foreground: 'editorLineNumber.foreground',          background: 'editor.background' },
+    { foreground: 'editorLineNumber.activeForeground',    background: 'editor.background' },
+    { foreground: 'editorWidget.foreground',              background: 'editorWidget.background' },
+    { foreground: 'statusBar.foreground',                 background: 'statusBar.background' },
+    { foreground: 'statusBar.noFolderForeground',         background: 'statusBar.noFolderBackground' },
+    { foreground: 'statusBar.debuggingForeground',        background: 'statusBar.debuggingBackground' },
+    { foreground: 'statusBarItem.remoteForeground',       background: 'statusBarItem.remoteBackground' },
+    { foreground: 'titleBar.activeForeground',            background: 'titleBar.activeBackground' },
+    { foreground: 'titleBar.inactiveForeground',          background: 'titleBar.inactiveBackground' },
+    { foreground: 'activityBar.foreground',               background: 'activityBar.background' },
+    { foreground: 'sideBar.foreground',                   background: 'sideBar.background' },
+    { foreground: 'sideBarTitle.foreground',              background: 'sideBar.background' },
+    { foreground: 'list.activeSelectionForeground',       background: 'list.activeSelectionBackground', backdrop: 'sideBar.background' },
+    { foreground: 'list.hoverForeground',                 background: 'list.hoverBackground', backdrop: 'sideBar.background' },
+    { foreground: 'tab.activeForeground',                 background: 'tab.activeBackground' },
+    { foreground: 'tab.inactiveForeground',               background: 'tab.inactiveBackground' },
+    { foreground: 'tab.hoverForeground',                  background: 'tab.hoverBackground' },
+    { foreground: 'panelTitle.activeForeground',          background: 'panel.background' },
+    { foreground: 'terminal.foreground',                  background: 'terminal.background' },
+    { foreground: 'button.foreground',                    background: 'button.background' },
+    { foreground: 'input.foreground',                     background: 'input.background' },
+    { foreground: 'dropdown.foreground',                  background: 'dropdown.background' },
+    { foreground: 'badge.foreground',                     background: 'badge.background' },
+    { foreground: 'menu.foreground',                      background: 'menu.background' },
+    { foreground: 'inputValidation.errorForeground',      background: 'inputValidation.errorBackground' },
+    { foreground: 'inputValidation.infoForeground',       background: 'inputValidation.infoBackground' },
+    { foreground: 'inputValidation.warningForeground',    background: 'inputValidation.warningBackground' }
+  ]);
+
+  /**
+   * Construct a new contrast auditor
+   *
+   * @param transformer - Color transformation service used for blending
+   * @param minimumRatio - Minimum acceptable contrast ratio (AAA by default)
+   */
+  constructor(transformer: IColorTransformer, minimumRatio = 7) {
+    this.transformer = transformer;
+    this.minimumRatio = minimumRatio;
+  }
+
+  /**
+   * Audit a synthesized theme for insufficient contrast
+   *
+   * @param synthesis - Synthesized theme with its palette and mappings
+   * @returns Pairs whose contrast ratio falls below the requirement
+   */
+  public audit(synthesis: IThemeSynthesis): IContrastFinding[] {
+    const { theme, editorMappings, tokenMappings } = synthesis;
+    const findings: IContrastFinding[] = [];
+
+    // Later mappings win, matching how experimental mappings are layered on
+    // top of the stable ones during synthesis.
+    //
+    const editorReferences = new Map<string, string>();
+    for (const mapping of editorMappings) {
+      if (mapping.color && mapping.color.trim() !== '') {
+        editorReferences.set(mapping.element, mapping.color);
+      }
+    }
+
+    for (const pair of this.elementPairs) {
+      const foreground = theme.colors[pair.foreground];
+      const background = theme.colors[pair.background];
+      const backdrop = theme.colors[pair.backdrop ?? 'editor.background'];
+
+      if (!foreground || !background || !backdrop) {
+        continue;
+      }
+
+      this.evaluatePair(findings, theme.id, {
+        foreground: pair.foreground,
+        background: pair.background,
+        foregroundColor: foreground,
+        backgroundColor: background,
+        backdropColor: backdrop,
+        foregroundReference: editorReferences.get(pair.foreground) ?? '',
+        backgroundReference: editorReferences.get(pair.background) ?? ''
+      });
+    }
+
+    const editorBackground = theme.colors['editor.background'];
+    if (!editorBackground) {
+      return findings;
+    }
+
+    // TextMate selectors are normalized the same way the factory does, so
+    // "a,b" in the configuration matches the emitted "a, b" label.
+    //
+    const tokenReferences = new Map<string, string>();
+    for (const mapping of tokenMappings) {
+      const key = mapping.system === TokenSystem.TEXTMATE
+        ? mapping.scopeOrType.split(',').map(part => part.trim().replace(/\s+/g, ' ')).join(', ')
+        : mapping.scopeOrType;
+      tokenReferences.set(`${mapping.system}:${key}`, mapping.color);
+    }
+
+    const tokens = [
+      ...theme.tokens.textMate.map(token => ({
+        system: TokenSystem.TEXTMATE,
+        label: Array.isArray(token.scope) ? token.scope.join(', ') : token.scope,
+        style: token.style
+      })),
+      ...theme.tokens.semantic.map(token => ({
+        system: TokenSystem.SEMANTIC,
+        label: token.selector,
+        style: token.style
+      }))
+    ];
+
+    for (const token of tokens) {
+      const foreground = typeof token.style === 'string'
+        ? token.style
+        : token.style.foreground;
+
+      if (!foreground) {
+        continue;
+      }
+
+      this.evaluatePair(findings, theme.id, {
+        foreground: token.label,
+        background: 'editor.background',
+        foregroundColor: foreground,
+        backgroundColor: editorBackground,
+        foregroundReference: tokenReferences.get(`${token.system}:${token.label}`) ?? '',
+        backgroundReference: editorReferences.get('editor.background') ?? ''
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Compute the WCAG 2.x contrast ratio between two colors
+   *
+   * A translucent background only has a defined appearance over whatever
+   * it is drawn on, so it is composited over the given backdrop, usually
+   * the theme's editor.background, rather than over an assumed color.
+   *
+   * @param foreground - Foreground hex color, translucent colors allowed
+   * @param background - Background hex color, translucent only with a backdrop
+   * @param backdrop - Opaque color a translucent background is drawn over
+   * @returns Contrast ratio between 1 and 21
+   * @throws {ThemeProcessingError} If the background is translucent and no
+   * backdrop is given
+   */
+  public computeContrastRatio(foreground: string, background: string, backdrop?: string): number {
+    if (backdrop === undefined && /^#?[0-9a-f]{6}(?!ff)[0-9a-f]{2}$/i.test(background)) {
+      throw new ThemeProcessingError(
+        `Translucent background ${background} needs a backdrop to measure contrast against`,
+        'COLOR_FORMAT_ERROR'
+      );
+    }
+
+    // An opaque background composites onto itself, which only normalizes
+    // it to #RRGGBB.
+    //
+    const opaqueBackground = backdrop === undefined
+      ? this.transformer.composite(background, background)
+      : this.transformer.composite(background, backdrop);
+    const opaqueForeground = this.transformer.composite(foreground, opaqueBackground);
+
+    const lighter = Math.max(
+      this.relativeLuminance(opaqueForeground),
+      this.relativeLuminance(opaqueBackground)
+    );
+    const darker = Math.min(
+      this.relativeLuminance(opaqueForeground),
+      this.relativeLuminance(opaqueBackground)
+    );
+
+    return (lighter + 0.05) / (darker + 0.05);
+  }
+
+  /**
+   * Evaluate a single pair and record it when it fails the requirement
+   *
+   * Pairs whose colors cannot be parsed are logged and skipped rather than
+   * aborting the whole audit.
+   *
+   * @param findings - Result collection for failing pairs
+   * @param themeId - Identifier of the audited theme
+   * @param pair - Pair description with resolved colors and references
+   */
+  private evaluatePair(
+    findings: IContrastFinding[],
+    themeId: string,
+    pair: {
+      foreground: string;
+      background: string;
+      foregroundColor: string;
+      backgroundColor: string;
+      backdropColor?: string;
+      foregroundReference: string;
+      backgroundReference: string;
+    }
+  ): void {
+    try {
+      const ratio = this.computeContrastRatio(pair.foregroundColor, pair.backgroundColor, pair.backdropColor);
+      if (ratio < this.minimumRatio) {
+        findings.push({
+          themeId,
+          foreground: pair.foreground,
+          background: pair.background,
+          foregroundReference: pair.foregroundReference,
+          backgroundReference: pair.backgroundReference,
+          ratio
+        });
+      }
+    } catch (error) {
+      console.error(`Error auditing contrast for "${pair.foreground}" on "${pair.background}":`, error);
+    }
+  }
+
+  /**
+   * Compute the relative luminance of an opaque color
+   *
+   * @param hex - Opaque hex color (#RRGGBB)
+   * @returns Relative luminance between 0 and 1
+   */
+  private relativeLuminance(hex: string): number {
+    const value = hex.replace('#', '');
+    const [r, g, b] = [0, 2, 4].map(offset => {
+      const channel = parseInt(value.slice(offset, offset + 2), 16) / 255;
+      return channel <= 0.04045
+        ? channel / 12.92
+        : Math.pow((channel + 0.055) / 1.055, 2.4);
+    });
+
+    return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  }
+}
+
+/**
+ * Hierarchical configuration processing
+ */
+abstract class HierarchicalConfigurationProcessor<T, TLeaf = string> {
+  /**
+   * Process a hierarchical configuration object recursively
+   *
+   * @param path - Current path in the configuration hierarchy
+   * @param node - Current node being processed
+   * @returns Array of processed configuration elements
+   */
+  public processConfiguration(path: string, node: unknown): T[] {
+    const elements: T[] = [];
+    this.traverseConfigurationNode(path, node, elements);
+    return elements;
+  }
+
+  /**
+   * Traverse node in the configuration hierarchy
+   *
+   * Recursively processes the configuration tree, creating path-based
+   * identifiers for terminal values.
+   *
+   * @param path - Current path in the configuration hierarchy
+   * @param node - Current node being processed
+   * @param accumulator - Result collection for processed elements
+   */
+  protected traverseConfigurationNode(
+    path: string,
+    node: unknown,
+    accumulator: T[]
+  ): void {
+    if (this.isLeafNode(node)) {
+      const element = this.createElementFromLeaf(path, node);
+      accumulator.push(element);
+    } else if (typeof node === 'object' && node !== null) {
+      this.traverseObjectProperties(path, node as Record<string, unknown>, accumulator);
+    }
+  }
+
+  /**
+   * Traverse properties of an object node
+   *
+   * @param path - Current path in the configuration hierarchy
+   * @param obj - Object whose properties should be traversed
+   * @param accumulator - Result collection for processed elements
+   */
+  protected traverseObjectProperties(
+    path: string,
+    obj: Record<string, unknown>,
+    accumulator: T[]
+  ): void {
+    for (const [key, value] of Object.entries(obj)) {
+      const qualifiedPath = this.constructQualifiedPath(path, key);
+      this.traverseConfigurationNode(qualifiedPath, value, accumulator);
+    }
+  }
+
+  /**
+   * Construct qualified path by joining path segments
+   *
+   * @param currentPath - Current path in the hierarchy
+   * @param segment - New path segment to append
+   * @returns Qualified path with proper delimiter
+   */
+  protected constructQualifiedPath(currentPath: string, segment: string): string {
+    return currentPath ? `${currentPath}.${segment}` : segment;
+  }
+
+  /**
+   * Build the identifier of a leaf from its path segments
+   *
+   * @param segments - Object keys leading to the leaf, outermost first
+   * @returns Identifier the leaf is processed under
+   */
+  public qualifyPath(segments: string[]): string {
+    return segments.reduce((current, segment) => this.constructQualifiedPath(current, segment), '');
+  }
+
+  /**
+   * Determine whether a node is a terminal value
+   *
+   * @param node - Node being processed
+   * @returns True if the node should be converted into an element
+   */
+  protected isLeafNode(node: unknown): node is TLeaf {
+    return typeof node === 'string';
+  }
+
+  /**
+   * Create domain element from leaf node value
+   *
+   * @param path - Path to the leaf node
+   * @param value - Value of the leaf node
+   * @returns Domain-specific element
+   */
+  protected abstract createElementFromLeaf(path: string, value: TLeaf): T;
+}
+
+/**
+ * Editor mapping processor implementation
+ *
+ * Specialized hierarchical processor for editor color mappings.
+ */
+class EditorMappingProcessor extends HierarchicalConfigurationProcessor<IEditorMapping> {
+  /**
+   * Create editor mapping from leaf node
+   *
+   * @param element - Editor element identifier
+   * @param color - Color reference value
+   * @returns Editor mapping object
+   */
+  protected createElementFromLeaf(element: string, color: string): IEditorMapping {
+    return { element, color };
+  }
+}
+
+/**
+ * Token mapping processor implementation
+ *
+ * Specialized hierarchical processor for token color mappings.
+ */
+class TokenMappingProcessor extends HierarchicalConfigurationProcessor<ITokenMapping, string | ITokenMappingLeaf> {
+  /** Properties a style object leaf may carry */
+  public static readonly STYLE_PROPERTIES: ReadonlyArray<string> = Object.freeze([
+    'color',
+    'fontStyle',
+    'background'
+  ]);
+
+  private readonly system: TokenSystem;
+
+  /**
+   * Construct a new token mapping processor
+   *
+   * @param system - Token system the processed mappings belong to
+   */
+  constructor(system: TokenSystem) {
+    super();
+    this.system = system;
+  }
+
+  /**
+   * Determine whether a node is a color reference or a style object
+   *
+   * A style object is an object whose properties are all string-valued style
+   * properties, e.g. { "color": "keyword", "fontStyle": "bold" }. Any other
+   * object is treated as a nesting level.
+   *
+   * @param node - Node being processed
+   * @returns True if the node should be converted into a token mapping
+   */
+  protected isLeafNode(node: unknown): node is string | ITokenMappingLeaf {
+    if (typeof node === 'string') {
+      return true;
+    }
+
+    if (typeof node !== 'object' || node === null || Array.isArray(node)) {
+      return false;
+    }
+
+    const entries = Object.entries(node);
+    return entries.length > 0 && entries.every(([key, value]) =>
+      TokenMappingProcessor.STYLE_PROPERTIES.includes(key) && typeof value === 'string'
+    );
+  }
+
+  /**
+   * Construct qualified path by joining path segments
+   *
+   * For semantic tokens, segments starting with ":" are language qualifiers
+   * and are appended as-is, so { "variable": { ":rust": "..." } } yields
+   * "variable:rust" while { "variable": { "readonly": "..." } } yields
+   * "variable.readonly".
+   *
+   * @param currentPath - Current path in the hierarchy
+   * @param segment - New path segment to append
+   * @returns Qualified path with proper delimiter
+   */
+  protected constructQualifiedPath(currentPath: string, segment: string): string {
+    if (this.system === TokenSystem.SEMANTIC && currentPath && segment.startsWith(':')) {
+      return `${currentPath}${segment}`;
+    }
+
+    return super.constructQualifiedPath(currentPath, segment);
+  }
+
+  /**
+   * Create token mapping from leaf node
+   *
+   * @param scopeOrType - Token scope or type identifier
+   * @param value - Color reference value or style object
+   * @returns Token mapping object with semantic classification
+   */
+  protected createElementFromLeaf(scopeOrType: string, value: string | ITokenMappingLeaf): ITokenMapping {
+    if (typeof value === 'string') {
+      return {
+        system: this.system,
+        scopeOrType,
+        color: value,
+      };
+    }
+
+    return {
+      system: this.system,
+      scopeOrType,
+      color: value.color ?? '',
+      ...(value.fontStyle !== undefined && { fontStyle: value.fontStyle }),
+      ...(value.background !== undefined && { background: value.background })
+    };
+  }
+}
+
+/**
+ * Theme orchestration service implementation
+ */
+export class ThemeOrchestrationService implements IThemeOrchestrator {
+  /**
+   * Token families rendered in bold by the boldConstructs setting
+   *
+   * Families are token selectors and scopes, never palette names: upstream's
+   * builtin face covers support.function (builtin functions included) and
+   * variable.language.
+   */
+  private static readonly BOLD_CONSTRUCTS: ReadonlyArray<string> = Object.freeze([
+    'keyword',
+    'storage',
+    'variable.language',
+    'support.function',
+    'support.type',
+    'support.class',
+    'function.defaultLibrary',
+    'variable.defaultLibrary',
+    'class.defaultLibrary',
+    'type.defaultLibrary'
+  ]);
+
+  /**
+   * Scopes excluded from construct styles despite matching a family
+   *
+   * Grammars scope operators under "keyword", but upstream never renders them
+   * as constructs.
+   */
+  private static readonly CONSTRUCT_EXCEPTIONS: ReadonlyArray<string> = Object.freeze([
+    'keyword.operator'
+  ]);
+
+  /** Token families rendered in italics by the italicConstructs setting */
+  private static readonly ITALIC_CONSTRUCTS: ReadonlyArray<string> = Object.freeze([
+    'comment',
+    'comment.block.documentation',
+    'punctuation.definition.comment',
+    'string.quoted.docstring'
+  ]);
+
+  /**
+   * Theme groups accepted as override selectors besides theme ids and types
+   *
+   * A group matches every theme whose id contains it as a segment.
+   */
+  private static readonly THEME_GROUPS: ReadonlyArray<string> = Object.freeze([
+    'operandi',
+    'vivendi',
+    'tinted',
+    'deuteranopia',
+    'tritanopia'
+  ]);
+
+  /** Directory under themes/ holding the last validated copy of each theme */
+  private static readonly LAST_GOOD_DIR = '.last-good';
+
+  private readonly analyzer: IThemeAnalyzer;
+  private readonly factory: IThemeFactory;
+  private readonly serializer: IThemeSerializer;
+  private readonly validator: IThemeValidator;
+  private readonly manifestStore: IManifestStore;
+  private readonly version: string;
+  private readonly outputDir?: string;
+  private readonly keepLastGood: boolean;
+  private readonly editorProcessor: EditorMappingProcessor;
+  private readonly semanticTokenProcessor: TokenMappingProcessor;
+  private readonly textMateTokenProcessor: TokenMappingProcessor;
+
+  /**
+   * Construct a new theme orchestration service
+   *
+   * @param analyzer - Theme analyzer
+   * @param factory - Theme factory
+   * @param serializer - Theme serializer
+   * @param validator - Validator of serialized themes
+   * @param manifestStore - Store of the generation manifest
+   * @param version - Extension version, part of every theme's input hash
+   * @param outputDir - Directory the theme files are written to, defaults
+   * to the extension's themes directory
+   * @param keepLastGood - Whether to keep a last-known-good copy of each
+   * theme next to the theme files
+   */
+  constructor(
+    analyzer: IThemeAnalyzer,
+    factory: IThemeFactory,
+    serializer: IThemeSerializer,
+    validator: IThemeValidator,
+    manifestStore: IManifestStore,
+    version: string,
+    outputDir?: string,
+    keepLastGood = true
+  ) {
+    this.analyzer = analyzer;
+    this.factory = factory;
+    this.serializer = serializer;
+    this.validator = validator;
+    this.manifestStore = manifestStore;
+    this.version = version;
+    this.outputDir = outputDir;
+    this.keepLastGood = keepLastGood;
+    this.editorProcessor = new EditorMappingProcessor();
+    this.semanticTokenProcessor = new TokenMappingProcessor(TokenSystem.SEMANTIC);
+    this.textMateTokenProcessor = new TokenMappingProcessor(TokenSystem.TEXTMATE);
+  }
+
+  /**
+   * Generate the themes whose inputs changed since the last generation
+   *
+   * Each theme's inputs are hashed and compared with the manifest; themes
+   * whose inputs and file are unchanged are skipped without synthesis, and a
+   * synthesized theme whose contents match the file on disk is not written.
+   * When nothing changed, nothing is written, the manifest included.
+   *
+   * Output is validated before it is written and replaces the theme file
+   * atomically, so VS Code never reads a partial or invalid theme; a theme
+   * that fails validation keeps its previous file. Every validated theme is
+   * also kept as its last-known-good copy.
+   *
+   * @param extensionPath - Path to the extension root
+   * @param config - User configuration
+   * @param force - Synthesize every theme regardless of the manifest
+   * @param token - Cancellation token checked before each write
+   * @returns Promise resolving to the ids of the themes whose files were written
+   * @throws {GenerationCancelledError} If cancelled, listing the themes already written
+   */
+  public async generateAllThemes(
+    extensionPath: string,
+    config: IConfiguration,
+    force = false,
+    token?: ICancellationToken
+  ): Promise<string[]> {
+    try {
+      const themesDir = this.outputDir ?? path.join(extensionPath, 'themes');
+      await fs.mkdir(themesDir, { recursive: true });
+
+      const inputs = await this.loadGenerationInputs(extensionPath, config);
+      config.warnings.forEach(warning => console.warn(warning));
+      for (const selector of ThemeOrchestrationService.findUnknownSelectors(config, inputs.themeDefinitions)) {
+        console.warn(`Ignoring "[${selector}]" color overrides: no theme matches the selector`);
+      }
+
+      const previousManifest = this.manifestStore.load();
+      const manifest: Record<string, IGenerationManifest[string]> = { ...previousManifest };
+
+      const results = await Promise.allSettled(
+        inputs.themeDefinitions.map(async (theme) => {
+          try {
+            const fileName = `${theme.id}-color-theme.json`;
+            const outputPath = path.join(themesDir, fileName);
+            const lastGoodPath = path.join(themesDir, ThemeOrchestrationService.LAST_GOOD_DIR, fileName);
+            const inputHash = await this.hashThemeInputs(extensionPath, theme, inputs, config);
+            const existing = await fs.readFile(outputPath, 'utf8').catch(() => undefined);
+            const existingHash = existing === undefined ? undefined : this.hash(existing);
+            const recorded = previousManifest[theme.id];
+
+            if (!force && recorded?.inputs === inputHash && recorded.output === existingHash) {
+              return undefined;
+            }
+
+            const synthesis = await this.synthesizeTheme(extensionPath, theme, inputs, config);
+            const content = JSON.stringify(this.serializer.serialize(synthesis.theme), null, 2);
+            const outputHash = this.hash(content);
+
+            const problems = this.validator.validate(JSON.parse(content));
+            if (problems.length > 0) {
+              throw new ThemeProcessingError(
+                `Theme ${theme.id} failed validation: ${problems.slice(0, 3).join('; ')}` +
+                (problems.length > 3 ? ` (and ${problems.length - 3} more)` : ''),
+                'VALIDATION_ERROR'
+              );
+            }
+
+            // Inputs that are already outdated must not reach the disk; a
+            // newer generation is about to write its own version.
+            //
+            if (token?.isCancellationRequested) {
+              return undefined;
+            }
+
+            manifest[theme.id] = { inputs: inputHash, output: outputHash };
+
+            if (outputHash === existingHash) {
+              if (this.keepLastGood && !fsSync.existsSync(lastGoodPath)) {
+                await this.writeAtomically(lastGoodPath, content);
+              }
+              return undefined;
+            }
+
+            await this.writeAtomically(outputPath, content);
+            if (this.keepLastGood) {
+              await this.writeAtomically(lastGoodPath, content);
+            }
+            return theme.id;
+          } catch (error) {
+            console.error(`Failed to generate theme ${theme.id}`, error);
+            throw error;
+          }
+        })
+      );
+
+      if (JSON.stringify(manifest) !== JSON.stringify(previousManifest)) {
+        await this.manifestStore.save(manifest);
+      }
+
+      const written = results
+        .map(result => result.status === 'fulfilled' ? result.value : undefined)
+        .filter((themeId): themeId is string => themeId !== undefined);
+
+      if (token?.isCancellationRequested) {
+        throw new GenerationCancelledError(written);
+      }
+
+      const failures = results.filter(
+        (r): r is PromiseRejectedResult => r.status === 'rejected'
+      );
+      if (failures.length > 0) {
+        const reasons = new Set(failures.map(failure =>
+          failure.reason instanceof Error ? failure.reason.message : String(failure.reason)
+        ));
+        throw new ThemeProcessingError(
+          `Failed to generate ${failures.length} theme(s): ${[...reasons].join('; ')}`,
+          'GENERATION_ERROR'
+        );
+      }
+
+      return written;
+    } catch (error) {
+      if (error instanceof GenerationCancelledError) {
+        throw error;
+      }
+      throw new ThemeProcessingError(
+        `Theme generation process failed: ${error instanceof Error ? error.message : String(error)}`,
+        'ORCHESTRATION_ERROR',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Put the last-known-good copy of each theme back in place
+   *
+   * Themes whose file already matches its copy are left untouched, and a
+   * copy that no longer validates is skipped rather than restored.
+   *
+   * @param extensionPath - Path to the extension root
+   * @returns Promise resolving to the ids of the themes whose files were restored
+   */
+  public async restoreLastGoodThemes(extensionPath: string): Promise<string[]> {
+    try {
+      const themesDir = this.outputDir ?? path.join(extensionPath, 'themes');
+      const lastGoodDir = path.join(themesDir, ThemeOrchestrationService.LAST_GOOD_DIR);
+      const fileNames = await fs.readdir(lastGoodDir).catch(() => [] as string[]);
+      const restored: string[] = [];
+
+      for (const fileName of fileNames.filter(name => name.endsWith('-color-theme.json')).sort()) {
+        const content = await fs.readFile(path.join(lastGoodDir, fileName), 'utf8');
+        const outputPath = path.join(themesDir, fileName);
+        const current = await fs.readFile(outputPath, 'utf8').catch(() => undefined);
+
+        if (current === content) {
+          continue;
+        }
+
+        let problems: string[];
+        try {
+          problems = this.validator.validate(JSON.parse(content));
+        } catch (error) {
+          problems = [error instanceof Error ? error.message : String(error)];
+        }
+        if (problems.length > 0) {
+          console.error(`Skipping invalid last-known-good copy ${fileName}: ${problems.join('; ')}`);
+          continue;
+        }
+
+        await this.writeAtomically(outputPath, content);
+        restored.push(fileName.slice(0, -'-color-theme.json'.length));
+      }
+
+      return restored;
+    } catch (error) {
+      throw new ThemeProcessingError(
+        `Theme restoration failed: ${error instanceof Error ? error.message : String(error)}`,
+        'ORCHESTRATION_ERROR',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Replace a file through a temporary sibling and a rename
+   *
+   * The rename is atomic on the same file system, so readers see either the
+   * previous contents or the new ones, never a partial write.
+   *
+   * @param filePath - File to replace
+   * @param content - New contents
+   */
+  private async writeAtomically(filePath: string, content: string): Promise<void> {
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    try {
+      await fs.writeFile(temporaryPath, content);
+      await fs.rename(temporaryPath, filePath);
+    } catch (error) {
+      await fs.rm(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Hash everything a theme file is generated from
+   *
+   * Covers the upstream source text, the parsed shared inputs (palette
+   * extensions, preset, mappings with construct styles applied), the
+   * overrides selected for the theme and the extension version, so any
+   * change that could alter the theme file changes the hash.
+   *
+   * @param extensionPath - Path to the extension root
+   * @param theme - Theme definition
+   * @param inputs - Shared generation inputs
+   * @param config - User configuration
+   * @returns Hex-encoded SHA-256 hash
+   */
+  private async hashThemeInputs(
+    extensionPath: string,
+    theme: IThemeDefinition,
+    inputs: IGenerationInputs,
+    config: IConfiguration
+  ): Promise<string> {
+    const source = await fs.readFile(path.join(extensionPath, theme.source), 'utf8');
+
+    return this.hash(JSON.stringify({
+      version: this.version,
+      theme,
+      source,
+      extensions: inputs.extensions,
+      preset: inputs.preset,
+      editorMappings: inputs.editorMappings,
+      tokenMappings: inputs.tokenMappings,
+      overrides: this.selectColorOverrides(theme, config)
+    }));
+  }
+
+  /**
+   * Hash a string
+   *
+   * @param content - Content to hash
+   * @returns Hex-encoded SHA-256 hash
+   */
+  private hash(content: string): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Synthesize all themes without writing them to disk
+   *
+   * @param extensionPath - Path to the extension root
+   * @param config - User configuration
+   * @returns Promise resolving to the synthesized themes
+   */
+  public async synthesizeAllThemes(extensionPath: string, config: IConfiguration): Promise<IThemeSynthesis[]> {
+    try {
+      const inputs = await this.loadGenerationInputs(extensionPath, config);
+
+      return await Promise.all(
+        inputs.themeDefinitions.map(theme =>
+          this.synthesizeTheme(extensionPath, theme, inputs, config)
+        )
+      );
+    } catch (error) {
+      throw new ThemeProcessingError(
+        `Theme synthesis failed: ${error instanceof Error ? error.message : String(error)}`,
+        'ORCHESTRATION_ERROR',
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Find every mapping that resolves through a palette color
+   *
+   * Each value in the mapping files is traced against every theme, so
+   * references through semantic aliases, variant entries and color function
+   * arguments count as well as direct ones.
+   *
+   * @param extensionPath - Path to the extension root
+   * @param config - User configuration
+   * @param name - Palette color name
+   * @returns Promise resolving to the usages in file order
+   */
+  public async findColorUsages(extensionPath: string, config: IConfiguration, name: string): Promise<IColorUsage[]> {
+    const syntheses = await this.synthesizeAllThemes(extensionPath, config);
+    const configDir = path.join(extensionPath, 'config');
+    const reader = new JsoncEntryReader();
+
+    const files = [
+      'modus-editor.json',
+      ...(config.experimental ? ['modus-editor-experimental.json'] : []),
+      'modus-tokens.json'
+    ];
+    const usages: IColorUsage[] = [];
+
+    for (const file of files) {
+      const filePath = path.join(configDir, file);
+      const content = await fs.readFile(filePath, 'utf8');
+
+      for (const entry of reader.readDocument(content)?.entries ?? []) {
+        const { value, valueStart } = entry;
+        if (!value || valueStart === undefined) {
+          continue;
+        }
+
+        const mapping = this.describeMappingEntry(file, entry);
+        if (!mapping) {
+          continue;
+        }
+
+        const themes = syntheses
+          .filter(synthesis => this.resolvesThrough(value, name, synthesis.palette))
+          .map(synthesis => synthesis.definition.name);
+
+        if (themes.length > 0) {
+          const lines = content.slice(0, valueStart).split('\n');
+          usages.push({
+            file: filePath,
+            location: { line: lines.length, column: lines[lines.length - 1].length + 1 },
+            ...mapping,
+            reference: value,
+            themes
+          });
+        }
+      }
+    }
+
+    return usages;
+  }
+
+  /**
+   * Find variant keys missing from some themes' blocks in modus-palette.json
+   *
+   * @param extensionPath - Path to the extension root
+   * @param config - User configuration
+   * @returns Promise resolving to the gaps, ordered by theme
+   */
+  public async findMissingVariantKeys(extensionPath: string, config: IConfiguration): Promise<IVariantGap[]> {
+    const inputs = await this.loadGenerationInputs(extensionPath, config);
+    const syntheses = await this.synthesizeAllThemes(extensionPath, config);
+    const variants = inputs.extensions.variants ?? {};
+    const keys = [...new Set(Object.values(variants).flatMap(block => Object.keys(block)))];
+    const gaps: IVariantGap[] = [];
+
+    for (const { definition, palette } of syntheses) {
+      for (const key of keys) {
+        if (variants[definition.id]?.[key] !== undefined) {
+          continue;
+        }
+
+        gaps.push({
+          key,
+          themeId: definition.id,
+          definedBy: Object.keys(variants).filter(themeId => variants[themeId][key] !== undefined),
+          fallback: palette.origins?.[key]
+        });
+      }
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Identify the mapping a string entry of a mapping file defines
+   *
+   * @param file - Mapping file name
+   * @param entry - String entry of the file
+   * @returns Target, token system and style property, or undefined for
+   * entries that are not color references such as font styles
+   */
+  private describeMappingEntry(
+    file: string,
+    entry: IJsoncEntry
+  ): { target: string; system?: TokenSystem; property: string } | undefined {
+    if (file !== 'modus-tokens.json') {
+      return { target: this.editorProcessor.qualifyPath([...entry.path, entry.key]), property: 'color' };
+    }
+
+    const [section, ...segments] = [...entry.path, entry.key];
+    const processor = section === 'semantic'
+      ? this.semanticTokenProcessor
+      : section === 'textMate' ? this.textMateTokenProcessor : undefined;
+    if (!processor || segments.length === 0) {
+      return undefined;
+    }
+
+    // Style object leaves carry the property as their last key
+    //
+    const last = segments[segments.length - 1];
+    const isStyleProperty = segments.length > 1 && TokenMappingProcessor.STYLE_PROPERTIES.includes(last);
+    if (isStyleProperty && last === 'fontStyle') {
+      return undefined;
+    }
+
+    return {
+      target: processor.qualifyPath(isStyleProperty ? segments.slice(0, -1) : segments),
+      system: section === 'semantic' ? TokenSystem.SEMANTIC : TokenSystem.TEXTMATE,
+      property: isStyleProperty ? last : 'color'
+    };
+  }
+
+  /**
+   * Check whether a reference resolves through a palette color
+   *
+   * @param reference - Mapping value
+   * @param name - Palette color name
+   * @param palette - Merged palette of a theme
+   * @returns True if any resolution step references the color
+   */
+  private resolvesThrough(reference: string, name: string, palette: IColorPalette): boolean {
+    try {
+      return this.analyzer
+        .traceColorReference(reference, palette)
+        .steps.some(step => step.reference === name);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Combine the global and theme-scoped overrides that apply to a theme
+   *
+   * Global overrides come first, then group selectors ("[dark]",
+   * "[tinted]") in the order they are written, then the theme's own
+   * "[modus-vivendi]" block, so the most specific value wins.
+   *
+   * @param theme - Theme definition
+   * @param config - User configuration
+   * @returns Overrides for the theme
+   */
+  private selectColorOverrides(theme: IThemeDefinition, config: IConfiguration): Record<string, string> {
+    const groups = Object.entries(config.themeOverrides)
+      .filter(([selector]) => selector !== theme.id && ThemeOrchestrationService.matchesThemeSelector(selector, theme))
+      .map(([, overrides]) => overrides);
+
+    return Object.assign({}, config.colorOverrides, ...groups, config.themeOverrides[theme.id]);
+  }
+
+  /**
+   * Check whether a theme-scoped override selector applies to a theme
+   *
+   * @param selector - Selector without brackets, e.g. "dark" or "modus-vivendi"
+   * @param theme - Theme definition
+   * @returns True for the theme id, the theme type or a theme group the id
+   * belongs to
+   */
+  public static matchesThemeSelector(selector: string, theme: ITheme): boolean {
+    return selector === theme.id ||
+      selector === theme.type ||
+      (ThemeOrchestrationService.THEME_GROUPS.includes(selector) && theme.id.split('-').includes(selector));
+  }
+
+  /**
+   * Find the override selectors that apply to none of the themes
+   *
+   * @param config - User configuration
+   * @param themes - Theme definitions
+   * @returns Unknown selectors without brackets, in the order they are written
+   */
+  public static findUnknownSelectors(config: IConfiguration, themes: ITheme[]): string[] {
+    return Object.keys(config.themeOverrides).filter(selector =>
+      !themes.some(theme => ThemeOrchestrationService.matchesThemeSelector(selector, theme))
+    );
+  }
+
+  /**
+   * Load the configuration files shared by every theme
+   *
+   * @param extensionPath - Path to the extension root
+   * @param config - User configuration
+   * @returns Promise resolving to the parsed generation inputs
+   */
+  private async loadGenerationInputs(extensionPath: string, config: IConfiguration): Promise<IGenerationInputs> {
+    const configDir = path.join(extensionPath, 'config');
+
+    const definitionsPath = path.join(configDir, 'modus-themes.json');
+    const definitionsContent = await fs.readFile(definitionsPath, 'utf8');
+    const themeDefinitions = JSON.parse(definitionsContent) as IThemeDefinition[];
+
+    const editorPath = path.join(configDir, 'modus-editor.json');
+    const editorContent = await fs.readFile(editorPath, 'utf8');
+    const editorData = JSON.parse(ThemeOrchestrationService.stripJsonComments(editorContent));
+    const editorMappings = this.editorProcessor.processConfiguration('', editorData);
+
+    let experimentalEditorMappings: IEditorMapping[] = [];
+    if (config.experimental) {
+      try {
+        const experimentalEditorPath = path.join(configDir, 'modus-editor-experimental.json');
+        const experimentalContent = await fs.readFile(experimentalEditorPath, 'utf8');
+        const experimentalData = JSON.parse(ThemeOrchestrationService.stripJsonComments(experimentalContent));
+        experimentalEditorMappings = this.editorProcessor.processConfiguration('', experimentalData);
+      } catch (error) {
+        console.warn('Failed to load experimental editor mappings:', error);
+      }
+    }
+
+    const combinedEditorMappings = [...editorMappings];
+    if (config.experimental && experimentalEditorMappings.length > 0) {
+      combinedEditorMappings.push(...experimentalEditorMappings);
+    }
+
+    const tokensPath = path.join(configDir, 'modus-tokens.json');
+    const tokensContent = await fs.readFile(tokensPath, 'utf8');
+    const tokensData = JSON.parse(ThemeOrchestrationService.stripJsonComments(tokensContent));
+    const tokenMappings = this.applyConstructStyles(
+      [
+        ...this.semanticTokenProcessor.processConfiguration('', tokensData.semantic ?? {}),
+        ...this.textMateTokenProcessor.processConfiguration('', tokensData.textMate ?? {})
+      ],
+      config
+    );
+
+    const extensionsPath = path.join(configDir, 'modus-palette.json');
+    const extensions = await this.analyzer.loadExtensions(extensionsPath);
+
+    const presetPath = path.join(extensionPath, 'upstream', 'modus-themes.el');
+    const preset = await this.analyzer.loadPreset(presetPath, config.palettePreset);
+
+    return {
+      themeDefinitions,
+      editorMappings: combinedEditorMappings,
+      tokenMappings,
+      extensions,
+      preset
+    };
+  }
+
+  /**
+   * Apply the font styles selected by the construct settings
+   *
+   * Mirrors modus-themes-bold-constructs and modus-themes-italic-constructs:
+   * a mapping belongs to a family when one of its selectors equals a family
+   * prefix, is nested below it or qualifies it with a language. The font
+   * style is added on top of any style the mapping already carries.
+   *
+   * @param tokenMappings - Token mappings from modus-tokens.json
+   * @param config - User configuration
+   * @returns Token mappings with construct font styles applied
+   */
+  private applyConstructStyles(tokenMappings: ITokenMapping[], config: IConfiguration): ITokenMapping[] {
+    const fontStyles: Array<{ fontStyle: string; families: ReadonlyArray<string> }> = [];
+
+    if (config.boldConstructs) {
+      fontStyles.push({ fontStyle: 'bold', families: ThemeOrchestrationService.BOLD_CONSTRUCTS });
+    }
+    if (config.italicConstructs) {
+      fontStyles.push({ fontStyle: 'italic', families: ThemeOrchestrationService.ITALIC_CONSTRUCTS });
+    }
+
+    if (fontStyles.length === 0) {
+      return tokenMappings;
+    }
+
+    return tokenMappings.map(mapping => {
+      // TextMate keys may list several selectors, each possibly with parent
+      // scopes and exclusions; only the targeted scope of each counts.
+      //
+      const targets = mapping.scopeOrType
+        .split(',')
+        .map(selector => selector.split(' - ')[0].trim().split(/\s+/).pop() ?? '')
+        .filter(target => !ThemeOrchestrationService.CONSTRUCT_EXCEPTIONS.some(exception =>
+          this.belongsToFamily(target, exception)
+        ));
+
+      const additions = fontStyles
+        .filter(({ families }) => families.some(family =>
+          targets.some(target => this.belongsToFamily(target, family))
+        ))
+        .map(({ fontStyle }) => fontStyle);
+
+      if (additions.length === 0) {
+        return mapping;
+      }
+
+      return {
+        ...mapping,
+        fontStyle: [mapping.fontStyle ?? '', ...additions].join(' ').trim()
+      };
+    });
+  }
+
+  /**
+   * Determine whether a token selector belongs to a token family
+   *
+   * @param target - Semantic selector or targeted TextMate scope
+   * @param family - Token family prefix
+   * @returns True if the selector equals, refines or qualifies the family
+   */
+  private belongsToFamily(target: string, family: string): boolean {
+    return target === family ||
+      target.startsWith(`${family}.`) ||
+      target.startsWith(`${family}:`);
+  }
+
+  /**
+   * Synthesize a single theme from the shared generation inputs
+   *
+   * @param extensionPath - Path to the extension root
+   * @param theme - Theme definition metadata
+   * @param inputs - Shared generation inputs
+   * @param config - User configuration
+   * @returns Promise resolving to the synthesized theme
+   */
+  private async synthesizeTheme(
+    extensionPath: string,
+    theme: IThemeDefinition,
+    inputs: IGenerationInputs,
+    config: IConfiguration
+  ): Promise<IThemeSynthesis> {
+    const sourcePath = path.join(extensionPath, theme.source);
+    const basePalette = await this.analyzer.analyzeSource(sourcePath);
+
+    const palette = this.analyzer.mergeColorSources(
+      basePalette,
+      inputs.extensions,
+      this.selectColorOverrides(theme, config),
+      theme.id,
+      inputs.preset
+    );
+
+    const vscodeTheme = this.factory.synthesizeTheme(
+      theme,
+      palette,
+      inputs.editorMappings,
+      inputs.tokenMappings
+    );
+
+    return {
+      definition: theme,
+      palette,
+      theme: vscodeTheme,
+      editorMappings: inputs.editorMappings,
+      tokenMappings: inputs.tokenMappings
+    };
+  }
+
+  /**
+   * Strip C-style comments from JSON string
+   *
+   * String literals are matched first and kept as they are, so URLs and
+   * other values containing "//" survive.
+   *
+   * @param jsonString - JSON text with comments
+   * @returns JSON text without comments
+   */
+  public static stripJsonComments(jsonString: string): string {
+    return jsonString.replace(
+      /("(?:[^"\\\n]|\\.)*")|\/\/.*$|\/\*[\s\S]*?\*\//gm,
+      (match, literal?: string) => literal ?? ''
+    );
+  }
+}
+
+/**
+ * Serialized, debounced theme regeneration
+ *
+ * Configuration changes, file watcher events and commands all request
+ * regeneration here. Requests arriving within the debounce delay are
+ * coalesced into one run, a request arriving during a run cancels it before
+ * it writes further files, and runs never overlap, so only one generation
+ * writes to the themes directory at a time.
+ */
+export class RegenerationScheduler {
+  /** Delay absorbing bursts such as the several watcher events of one save */
+  public static readonly DEBOUNCE_DELAY = 300;
+
+  private readonly orchestrator: Pick<IThemeOrchestrator, 'generateAllThemes'>;
+  private readonly configSource: IConfigurationSource;
+  private readonly extensionPath: string;
+  private readonly onGenerated: (result: IRegenerationResult) => Promise<void>;
+  private pending?: {
+    force: boolean;
+    prompt: boolean;
+    written: string[];
+    waiters: Array<{ resolve: (written: string[]) => void; reject: (error: unknown) => void }>;
+  };
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+  private activeToken?: { isCancellationRequested: boolean };
+
+  /**
+   * Construct a new regeneration scheduler
+   *
+   * @param orchestrator - Theme orchestrator performing the generation
+   * @param configSource - Source of the configuration, read per run
+   * @param extensionPath - Path to the extension root
+   * @param onGenerated - Follow-up run after each completed generation,
+   * before the next one starts
+   */
+  constructor(
+    orchestrator: Pick<IThemeOrchestrator, 'generateAllThemes'>,
+    configSource: IConfigurationSource,
+    extensionPath: string,
+    onGenerated: (result: IRegenerationResult) => Promise<void>
+  ) {
+    this.orchestrator = orchestrator;
+    this.configSource = configSource;
+    this.extensionPath = extensionPath;
+    this.onGenerated = onGenerated;
+  }
+
+  /**
+   * Request a regeneration
+   *
+   * @param request - Regeneration options
+   * @returns Promise resolving to the ids of the themes written by the run
+   * that served the request, including those written by runs it cancelled
+   */
+  public schedule(request: IRegenerationRequest = {}): Promise<string[]> {
+    return new Promise((resolve, reject) => {
+      this.pending = {
+        force: (this.pending?.force ?? false) || (request.force ?? false),
+        prompt: (this.pending?.prompt ?? false) || (request.prompt ?? false),
+        written: this.pending?.written ?? [],
+        waiters: [...(this.pending?.waiters ?? []), { resolve, reject }]
+      };
+
+      if (this.activeToken) {
+        this.activeToken.isCancellationRequested = true;
+      }
+
+      if (this.timer) {
+        clearTimeout(this.timer);
+      }
+      this.timer = setTimeout(() => {
+        this.timer = undefined;
+        this.flush();
+      }, request.immediate ? 0 : RegenerationScheduler.DEBOUNCE_DELAY);
+    });
+  }
+
+  /**
+   * Run a task that writes theme files once no generation is running
+   *
+   * Generations requested meanwhile wait for the task to finish.
+   *
+   * @param task - Task to run
+   * @returns Promise resolving to the task's result
+   */
+  public async runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    while (this.running) {
+      await this.running;
+    }
+
+    const result = task();
+    this.running = result.then(() => undefined, () => undefined);
+
+    try {
+      return await result;
+    } finally {
+      this.running = undefined;
+    }
+  }
+
+  /**
+   * Cancel the running generation and drop pending requests
+   */
+  public dispose(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    if (this.activeToken) {
+      this.activeToken.isCancellationRequested = true;
+    }
+
+    const waiters = this.pending?.waiters ?? [];
+    this.pending = undefined;
+    for (const waiter of waiters) {
+      waiter.reject(new GenerationCancelledError());
+    }
+  }
+
+  /**
+   * Start the pending batch once the previous run has finished
+   */
+  private async flush(): Promise<void> {
+    while (this.running) {
+      await this.running;
+    }
+
+    const batch = this.pending;
+    if (!batch) {
+      return;
+    }
+    this.pending = undefined;
+
+    const token = { isCancellationRequested: false };
+    this.activeToken = token;
+    this.running = this.run(batch, token);
+
+    try {
+      await this.running;
+    } finally {
+      this.running = undefined;
+      if (this.activeToken === token) {
+        this.activeToken = undefined;
+      }
+    }
+  }
+
+  /**
+   * Generate the themes for one batch of coalesced requests
+   *
+   * A cancelled batch hands its requests over to the newer one that
+   * cancelled it, so every request is answered by a run that saw its input.
+   * The themes it already wrote are handed over as well and reported by
+   * that run, as they still need the follow-up and a reload.
+   *
+   * @param batch - Coalesced requests
+   * @param token - Cancellation token of the run
+   */
+  private async run(
+    batch: NonNullable<RegenerationScheduler['pending']>,
+    token: ICancellationToken
+  ): Promise<void> {
+    try {
+      const config = this.configSource.retrieveConfiguration();
+      const generated = await this.orchestrator.generateAllThemes(this.extensionPath, config, batch.force, token);
+      const written = [...new Set([...batch.written, ...generated])];
+
+      await this.onGenerated({ written, config, prompt: batch.prompt });
+      batch.waiters.forEach(waiter => waiter.resolve(written));
+    } catch (error) {
+      if (error instanceof GenerationCancelledError && this.pending) {
+        this.pending = {
+          force: this.pending.force || batch.force,
+          prompt: this.pending.prompt || batch.prompt,
+          written: [...new Set([...batch.written, ...error.written, ...this.pending.written])],
+          waiters: [...batch.waiters, ...this.pending.waiters]
+        };
+        return;
+      }
+
+      batch.waiters.forEach(waiter => waiter.reject(error));
+    }
+  }
+}
+
+/**
+ * Error-tolerant JSONC reader for editor tooling
+ *
+ * Settings and mapping files are usually mid-edit when completions or
+ * swatches are requested, so unterminated strings, missing colons and stray
+ * tokens are skipped rather than rejected.
+ */
+export class JsoncEntryReader {
+  private tokens: IJsoncToken[] = [];
+  private position = 0;
+  private textLength = 0;
+
+  /**
+   * Locate every object stored under a key, at any depth
+   *
+   * @param text - Document text
+   * @param key - Property key to look for, e.g. "modus.colorOverrides"
+   * @returns Objects in document order with their string entries
+   */
+  public findObjects(text: string, key: string): IJsoncObject[] {
+    const objects: IJsoncObject[] = [];
+
+    const visit = (node: JsoncNode): void => {
+      if (node.kind !== 'object') {
+        return;
+      }
+
+      for (const property of node.properties) {
+        if (!property.value) {
+          continue;
+        }
+
+        if (property.key.text === key && property.value.kind === 'object') {
+          objects.push(this.toObject(property.value));
+        } else {
+          visit(property.value);
+        }
+      }
+    };
+
+    this.parse(text).forEach(visit);
+    return objects;
+  }
+
+  /**
+   * Read the root object of a document
+   *
+   * @param text - Document text
+   * @returns Root object with its string entries, or undefined if the
+   * document does not start with an object
+   */
+  public readDocument(text: string): IJsoncObject | undefined {
+    const root = this.parse(text).find(node => node.kind === 'object');
+    return root?.kind === 'object' ? this.toObject(root) : undefined;
+  }
+
+  /**
+   * Flatten an object node into its string-valued entries
+   *
+   * @param node - Object node
+   * @returns Object with entries and blocks, nested ones included
+   */
+  private toObject(node: Extract<JsoncNode, { kind: 'object' }>): IJsoncObject {
+    const entries: IJsoncEntry[] = [];
+    const blocks: IJsoncEntry[] = [];
+
+    const collect = (current: Extract<JsoncNode, { kind: 'object' }>, path: string[]): void => {
+      for (const { key, value } of current.properties) {
+        if (value?.kind === 'object') {
+          blocks.push({ path, key: key.text, keyStart: key.contentStart, keyEnd: key.contentEnd });
+          collect(value, [...path, key.text]);
+          continue;
+        }
+
+        if (value && value.kind !== 'string') {
+          continue;
+        }
+
+        entries.push({
+          path,
+          key: key.text,
+          keyStart: key.contentStart,
+          keyEnd: key.contentEnd,
+          ...(value && {
+            value: value.token.text,
+            valueStart: value.token.contentStart,
+            valueEnd: value.token.contentEnd
+          })
+        });
+      }
+    };
+
+    collect(node, []);
+    return { start: node.start, end: node.end, entries, blocks };
+  }
+
+  /**
+   * Parse a document into its top-level values
+   *
+   * @param text - Document text
+   * @returns Top-level nodes, normally a single object
+   */
+  private parse(text: string): JsoncNode[] {
+    this.tokens = this.tokenize(text);
+    this.position = 0;
+    this.textLength = text.length;
+
+    const nodes: JsoncNode[] = [];
+    while (this.position < this.tokens.length) {
+      nodes.push(this.parseValue());
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Parse the value starting at the current token
+   *
+   * @returns Parsed node
+   */
+  private parseValue(): JsoncNode {
+    const token = this.tokens[this.position++];
+
+    if (token.type === 'punctuation' && token.text === '{') {
+      return this.parseObject(token.start);
+    }
+    if (token.type === 'punctuation' && token.text === '[') {
+      this.parseArray();
+    }
+    if (token.type === 'string') {
+      return { kind: 'string', token };
+    }
+
+    return { kind: 'other' };
+  }
+
+  /**
+   * Parse object properties up to the closing brace
+   *
+   * @param start - Offset of the opening brace
+   * @returns Object node, ending at the document end if unclosed
+   */
+  private parseObject(start: number): JsoncNode {
+    const properties: Array<{ key: IJsoncToken; value?: JsoncNode }> = [];
+
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position];
+
+      if (token.type === 'punctuation' && token.text === '}') {
+        this.position++;
+        return { kind: 'object', start, end: token.end, properties };
+      }
+
+      this.position++;
+      if (token.type !== 'string') {
+        continue;
+      }
+
+      if (this.tokens[this.position]?.text === ':') {
+        this.position++;
+      }
+
+      // A key without a value, as while typing, ends at the next separator
+      //
+      const next = this.tokens[this.position];
+      const hasValue = next && !(next.type === 'punctuation' && (next.text === ',' || next.text === '}'));
+      properties.push({ key: token, value: hasValue ? this.parseValue() : undefined });
+    }
+
+    return { kind: 'object', start, end: this.textLength, properties };
+  }
+
+  /**
+   * Skip array elements up to the closing bracket
+   */
+  private parseArray(): void {
+    while (this.position < this.tokens.length) {
+      const token = this.tokens[this.position];
+
+      if (token.type === 'punctuation' && token.text === ']') {
+        this.position++;
+        return;
+      }
+      if (token.type === 'punctuation' && (token.text === ',' || token.text === '}')) {
+        this.position++;
+        continue;
+      }
+
+      this.parseValue();
+    }
+  }
+
+  /**
+   * Split a JSONC document into strings, punctuation and bare literals
+   *
+   * @param text - Document text
+   * @returns Tokens with content offsets; comments and whitespace dropped
+   */
+  private tokenize(text: string): IJsoncToken[] {
+    const tokens: IJsoncToken[] = [];
+    let i = 0;
+
+    while (i < text.length) {
+      const char = text[i];
+
+      if (/\s/.test(char)) {
+        i++;
+      } else if (text.startsWith('//', i)) {
+        const end = text.indexOf('\n', i);
+        i = end === -1 ? text.length : end;
+      } else if (text.startsWith('/*', i)) {
+        const end = text.indexOf('*/', i + 2);
+        i = end === -1 ? text.length : end + 2;
+      } else if (char === '"') {
+        // Unterminated strings end at the line break, which keeps a key
+        // being typed from swallowing the rest of the document.
+        //
+        let j = i + 1;
+        while (j < text.length && text[j] !== '"' && text[j] !== '\n') {
+          j += text[j] === '\\' ? 2 : 1;
+        }
+        const closed = text[j] === '"';
+        tokens.push({
+          type: 'string',
+          text: text.slice(i + 1, j),
+          start: i,
+          end: closed ? j + 1 : j,
+          contentStart: i + 1,
+          contentEnd: j
+        });
+        i = closed ? j + 1 : j;
+      } else if ('{}[]:,'.includes(char)) {
+        tokens.push({ type: 'punctuation', text: char, start: i, end: i + 1, contentStart: i, contentEnd: i + 1 });
+        i++;
+      } else {
+        let j = i;
+        while (j < text.length && !/[\s{}[\]:,"]/.test(text[j]) && !text.startsWith('//', j) && !text.startsWith('/*', j)) {
+          j++;
+        }
+        tokens.push({ type: 'literal', text: text.slice(i, j), start: i, end: j, contentStart: i, contentEnd: j });
+        i = j;
+      }
+    }
+
+    return tokens;
+  }
+}
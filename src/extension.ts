@@ -1,151 +1,141 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs/promises';
 import * as fsSync from 'fs';
-import { Stats } from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { Disposable } from 'vscode';
+import {
+  ThemeType,
+  TokenSystem,
+  PaletteSource,
+  ResolutionStepKind,
+  IJsoncEntry,
+  IColorPalette,
+  ISerializedTheme,
+  ITokenMapping,
+  IConfiguration,
+  IGenerationManifest,
+  IConfigurationSource,
+  IRegenerationResult,
+  IManifestStore,
+  IThemeSynthesis,
+  IThemeDefinition,
+  IThemeAnalyzer,
+  IThemeSerializer,
+  IThemeOrchestrator,
+  IContrastAuditor,
+  ThemeProcessingError,
+  GenerationCancelledError,
+  StandardColorTransformer,
+  ModusThemeAnalyzer,
+  VSCodeThemeFactory,
+  VSCodeThemeSerializer,
+  VSCodeThemeValidator,
+  ConfigurationParser,
+  ITerminalExporter,
+  TerminalSchemeBuilder,
+  AlacrittyExporter,
+  KittyExporter,
+  WindowsTerminalExporter,
+  FootExporter,
+  XresourcesExporter,
+  IColorSchemeSerializer,
+  TmThemeSerializer,
+  SublimeColorSchemeSerializer,
+  CssCustomPropertiesExporter,
+  WcagContrastAuditor,
+  ThemeOrchestrationService,
+  RegenerationScheduler,
+  JsoncEntryReader
+} from './core';
 
 /**
- * Theme type enumeration that categorizes themes by luminance characteristics
- * @readonly
+ * Regeneration notification of the public API
  */
-enum ThemeType {
-  LIGHT = 'light',
-  DARK = 'dark'
+export interface IRegenerationEvent {
+  /** Ids of the themes whose files were written, empty if none changed */
+  readonly written: ReadonlyArray<string>;
 }
 
 /**
- * Base theme interface defining core properties that all theme variants must
- * implement
+ * Public API returned from activation, for other extensions to use Modus
+ * colors instead of hardcoding them
  */
-interface ITheme {
-  /** Unique identifier for theme differentiation */
-  readonly id: string;
-
-  /** Human-readable display name */
-  readonly name: string;
-
-  /** Luminance classification */
-  readonly type: ThemeType;
-}
-
-/**
- * Theme definition that extends the base theme with source metadata
- */
-interface IThemeDefinition extends ITheme {
-  /** Relative path to the source definition file */
-  readonly source: string;
-
-  /** User-facing descriptive text */
-  readonly description: string;
-}
-
-/**
- * Base color specification interface
- */
-interface IColor {
-  /** Direct hexadecimal color values */
-  readonly hex: Record<string, string>;
-
-  /** Semantic color references that map to direct values */
-  readonly semantic: Record<string, string>;
-}
-
-/**
- * Color transformation service
- */
-interface IColorTransformer {
+export interface IModusThemesApi {
   /**
-   * Apply opacity to a hex color
+   * List the themes defined in modus-themes.json
    *
-   * @param hex - Hex color string (with or without # prefix)
-   * @param opacity - Opacity value between 0 and 1
-   * @returns Hex color with alpha channel (#RRGGBBAA)
-   * @throws {ThemeProcessingError} If the hex color format is invalid
+   * @returns Promise resolving to the theme definitions
    */
-  applyOpacity(hex: string, opacity: number): string;
-}
-
-/**
- * Extended color palette with theme-specific variant support
- */
-interface IColorPalette extends IColor {
-  /** Theme-specific color overrides organized by theme identifier */
-  readonly variants?: Record<string, Record<string, string>>;
-}
+  getThemes(): Promise<IThemeDefinition[]>;
 
-/**
- * Token styling specification
- */
-interface IToken {
-  readonly style: string | {
-    readonly foreground?: string;
-    readonly fontStyle?: string;
-    readonly background?: string;
-  };
-}
+  /**
+   * Get the merged palette of a theme, overrides included
+   *
+   * @param themeId - Theme identifier, e.g. "modus-vivendi"
+   * @returns Promise resolving to a copy of the palette, or undefined for
+   * unknown themes
+   */
+  getPalette(themeId: string): Promise<IColorPalette | undefined>;
 
-/**
- * TextMate token specification
- */
-interface ITextMateToken extends IToken {
-  /** TextMate scope selector pattern */
-  readonly scope: string | string[];
-}
+  /**
+   * Resolve a color reference against a theme's merged palette
+   *
+   * @param themeId - Theme identifier, e.g. "modus-vivendi"
+   * @param reference - Palette name, "name@opacity" reference or color function
+   * @returns Promise resolving to the hex color, or undefined for unknown themes
+   * @throws {ThemeProcessingError} If the reference cannot be resolved
+   */
+  resolveColor(themeId: string, reference: string): Promise<string | undefined>;
 
-/**
- * Semantic token specification
- */
-interface ISemanticToken extends IToken {
-  /** Semantic token type identifier */
-  readonly type: string;
+  /** Event fired after each successful theme regeneration */
+  readonly onDidRegenerate: vscode.Event<IRegenerationEvent>;
 }
 
 /**
- * VS Code specific theme format
+ * Node of the palette explorer
+ *
+ * Theme nodes list the merged palette of their synthesis; entry nodes carry
+ * the merged value, the layer it came from and its resolution, if any.
  */
-interface IThemeVSC extends ITheme {
-  /** Editor color definitions for VS Code components */
-  readonly colors: Record<string, string>;
-
-  /** Token styling specifications organized by token system */
-  readonly tokens: {
-    readonly textMate: ITextMateToken[];
-    readonly semantic: ISemanticToken[];
-  };
-}
+type PaletteTreeNode =
+  | { readonly kind: 'theme'; readonly synthesis: IThemeSynthesis }
+  | {
+      readonly kind: 'entry';
+      readonly synthesis: IThemeSynthesis;
+      readonly name: string;
+      readonly value: string;
+      readonly source: PaletteSource;
+      readonly resolved?: string;
+    };
 
 /**
- * Editor element to color mapping specification
+ * Customizations added to the user settings by live mode, keyed by
+ * "[Theme Name]" scope
+ *
+ * Only these entries are ever removed again, so customizations made by the
+ * user in the same scopes are left alone.
  */
-interface IEditorMapping {
-  /** Editor element identifier in the VS Code schema */
-  readonly element: string;
-
-  /** Color reference to be resolved against the palette */
-  readonly color: string;
+interface ILiveCustomizations {
+  readonly colors: Record<string, Record<string, string>>;
+  readonly textMateRules: Record<string, ISerializedTheme['tokenColors']>;
+  readonly semanticRules: Record<string, ISerializedTheme['semanticTokenColors']>;
 }
 
 /**
- * Token to color mapping specification
+ * Quick pick entry of the color inspector
+ *
+ * Exactly one of the editor element and the token mapping is set.
  */
-interface ITokenMapping {
-  /** Token identification pattern */
-  readonly scopeOrType: string;
-
-  /** Color reference to be resolved against the palette */
-  readonly color: string;
-}
+interface IInspectionTarget extends vscode.QuickPickItem {
+  /** Editor element identifier */
+  readonly element?: string;
 
-/**
- * User configuration schema
- */
-interface IConfiguration {
-  /** User-defined color customizations */
-  readonly colorOverrides: Record<string, string>;
+  /** Token mapping */
+  readonly tokenMapping?: ITokenMapping;
 
-  /** Flag for experimental functionality */
-  readonly experimental: boolean;
+  /** Whether the element only exists in the disabled experimental mappings */
+  readonly experimentalOnly?: boolean;
 }
 
 /**
@@ -174,14 +164,7 @@ interface IFileWatcher {
 /**
  * Configuration repository
  */
-interface IConfigurationRepository {
-  /**
-   * Retrieve current configuration state
-   *
-   * @returns Current configuration values
-   */
-  retrieveConfiguration(): IConfiguration;
-
+interface IConfigurationRepository extends IConfigurationSource {
   /**
    * Register for configuration change notifications
    *
@@ -189,221 +172,44 @@ interface IConfigurationRepository {
    * @returns Disposable resource for managing the subscription lifecycle
    */
   onConfigurationChanged(handler: (config: IConfiguration) => void): Disposable;
-}
-
-/**
- * Color resolution service
- */
-interface IColorResolver {
-  /**
-   * Resolve a color reference with opacity notation
-   *
-   * @param reference - Color reference with opacity (format: "color-name@opacity")
-   * @param palette - Color palette to resolve against
-   * @returns Resolved hex color with opacity applied
-   * @throws {ThemeProcessingError} If the reference is invalid or cannot be resolved
-   */
-  resolveColorWithOpacity(reference: string, palette: IColorPalette): string;
-
-  /**
-   * Parse and validate an opacity value
-   *
-   * @param opacityStr - String representation of opacity value
-   * @param fullReference - Full color reference for error context
-   * @returns Validated opacity value between 0 and 1
-   * @throws {ThemeProcessingError} If opacity value is invalid
-   */
-  parseAndValidateOpacity(opacityStr: string, fullReference: string): number;
-
-  /**
-   * Resolve a base color name to its hex value
-   *
-   * @param baseColorName - Base color name (without opacity suffix)
-   * @param palette - Color palette to resolve against
-   * @returns Resolved hex color
-   * @throws {ThemeProcessingError} If base color cannot be resolved
-   */
-  resolveBaseColor(baseColorName: string, palette: IColorPalette): string;
 
   /**
-   * Find and resolve a color from theme variants
+   * Add or replace color overrides in the user settings
    *
-   * @param colorName - Color name to find
-   * @param palette - Color palette containing variants
-   * @returns Resolved color or undefined if not found
+   * @param overrides - Overrides to store, keyed by palette name
+   * @param themeId - Theme whose "[theme]" block receives the overrides,
+   * global overrides if omitted
+   * @returns Promise resolving when the settings are written
    */
-  findAndResolveVariantColor(colorName: string, palette: IColorPalette): string | undefined;
+  storeColorOverrides(overrides: Record<string, string>, themeId?: string): Promise<void>;
 }
 
 /**
- * Theme analysis service
+ * Cache of synthesized themes for editor tooling
  */
-interface IThemeAnalyzer {
-  /**
-   * Analyze a theme source file and extract color definitions
-   *
-   * @param path - Path to the theme source file
-   * @returns Promise resolving to the extracted color definitions
-   */
-  analyzeSource(path: string): Promise<IColor>;
-
-  /**
-   * Load extension data for palette customization
-   *
-   * @param path - Path to the extensions file
-   * @returns Promise resolving to the palette extensions
-   */
-  loadExtensions(path: string): Promise<IColorPalette>;
-
-  /**
-   * Merge multiple color sources into a unified palette
-   *
-   * @param base - Base color definitions
-   * @param extensions - Extension color definitions
-   * @param overrides - User override color definitions
-   * @param themeId - Target theme identifier
-   * @returns Unified color palette
-   */
-  mergeColorSources(base: IColor, extensions: IColorPalette, overrides: Record<string, string>, themeId: string): IColorPalette;
-
-  /**
-   * Resolve a symbolic color name to its concrete hex value
-   *
-   * @param name - Color name or reference
-   * @param palette - Color palette to resolve against
-   * @returns Resolved hex color value or undefined if not resolvable
-   */
-  resolveColorReference(name: string, palette: IColorPalette): string | undefined;
-}
-
-/**
- * Theme generation service
- */
-interface IThemeFactory {
-  /**
-   * Synthesize VS Code theme from components
-   *
-   * @param theme - Theme definition metadata
-   * @param palette - Color palette for token and editor coloring
-   * @param editorMappings - Editor element color assignments
-   * @param tokenMappings - Token color assignments
-   * @returns Constructed VS Code theme
-   */
-  synthesizeTheme(
-    theme: IThemeDefinition,
-    palette: IColorPalette,
-    editorMappings: IEditorMapping[],
-    tokenMappings: ITokenMapping[]
-  ): IThemeVSC;
-}
-
-/**
- * Theme serialization service
- */
-interface IThemeSerializer {
-  /**
-   * Serialize theme to VS Code's format specification
-   *
-   * @param theme - Internal theme representation
-   * @returns VS Code compatible theme object
-   */
-  serialize(theme: IThemeVSC): any;
-}
-
-/**
- * Theme orchestration service
- */
-interface IThemeOrchestrator {
-  /**
-   * Generate all themes from source definitions
-   *
-   * @param extensionPath - Path to the extension root
-   * @param config - User configuration
-   * @returns Promise that resolves when generation completes
-   */
-  generateAllThemes(extensionPath: string, config: IConfiguration): Promise<void>;
+interface IPaletteCatalog {
+  /** Event fired when cached syntheses are discarded */
+  readonly onDidChange: vscode.Event<void>;
 
   /**
-   * Detect modifications to source files
+   * Get the synthesized themes for the current configuration
    *
-   * @param extensionPath - Path to the extension root
-   * @returns Promise resolving to true if changes detected
+   * @returns Promise resolving to the syntheses, empty if synthesis failed
    */
-  detectSourceModifications(extensionPath: string): Promise<boolean>;
-}
-
-/**
- * Domain-specific error for theme processing
- */
-class ThemeProcessingError extends Error {
-  /** Error classification code */
-  public readonly code: string;
-
-  /** Original error that triggered this error */
-  public readonly cause?: Error;
+  getSyntheses(): Promise<IThemeSynthesis[]>;
 
   /**
-   * Construct a new theme processing error
+   * Get the synthesis of the active Modus theme
    *
-   * @param message - Descriptive error message
-   * @param code - Error classification code
-   * @param cause - Original triggering error if applicable
+   * @returns Promise resolving to the active theme's synthesis, the first
+   * theme's when no Modus theme is active, or undefined if none exist
    */
-  constructor(message: string, code: string, cause?: Error) {
-    super(message);
-    this.name = this.constructor.name;
-    this.code = code;
-    this.cause = cause;
+  getActiveSynthesis(): Promise<IThemeSynthesis | undefined>;
 
-    if (Error.captureStackTrace) {
-      Error.captureStackTrace(this, this.constructor);
-    }
-  }
-}
-
-/**
- * Standard implementation of color transformation service
- */
-class StandardColorTransformer implements IColorTransformer {
   /**
-   * Apply opacity to a hex color
-   *
-   * @param hex - Hex color string (with or without # prefix)
-   * @param opacity - Opacity value between 0 and 1
-   * @returns Hex color with alpha channel (#RRGGBBAA)
-   * @throws {ThemeProcessingError} If the hex color format is invalid
+   * Discard cached syntheses so they are rebuilt on next access
    */
-  public applyOpacity(hex: string, opacity: number): string {
-    //
-    if (!hex) {
-      throw new ThemeProcessingError(
-        'Invalid hex color: empty or undefined',
-        'COLOR_FORMAT_ERROR'
-      );
-    }
-
-    if (!hex.startsWith('#')) {
-      hex = `#${hex}`;
-    }
-
-    const hexWithoutPrefix = hex.replace('#', '');
-
-    // 8-digit RGBA formats (with alpha channel) are intentionally rejected to
-    // prevent ambiguity when appending our calculated alpha value.
-    //
-    if (!/^[0-9A-Fa-f]{6}$/.test(hexWithoutPrefix)) {
-      throw new ThemeProcessingError(
-        `Invalid hex color format: ${hex}`,
-        'COLOR_FORMAT_ERROR'
-      );
-    }
-
-    const alpha = Math.round(opacity * 255)
-      .toString(16)
-      .padStart(2, '0');
-
-    return `#${hexWithoutPrefix}${alpha}`;
-  }
+  invalidate(): void;
 }
 
 /**
@@ -449,6 +255,8 @@ class FileSystemWatcher implements IFileWatcher {
  * Configuration repository implementation
  */
 class ConfigurationRepository implements IConfigurationRepository {
+  private readonly parser = new ConfigurationParser();
+
   /**
    * Retrieve current configuration values
    *
@@ -457,16 +265,9 @@ class ConfigurationRepository implements IConfigurationRepository {
   public retrieveConfiguration(): IConfiguration {
     try {
       const config = vscode.workspace.getConfiguration('modus');
-
-      return {
-        colorOverrides: config.get<Record<string, string>>('colorOverrides', {}),
-        experimental: config.get<boolean>('experimental', false)
-      };
+      return this.parser.parse(key => config.get(key));
     } catch (error) {
-      return {
-        colorOverrides: {},
-        experimental: false
-      };
+      return this.parser.parse(() => undefined);
     }
   }
 
@@ -488,938 +289,2139 @@ class ConfigurationRepository implements IConfigurationRepository {
       }
     });
   }
+
+  /**
+   * Add or replace color overrides in the user settings
+   *
+   * Only the user-level value is merged into, so workspace overrides are
+   * not copied into the user settings.
+   *
+   * @param overrides - Overrides to store, keyed by palette name
+   * @param themeId - Theme whose "[theme]" block receives the overrides,
+   * global overrides if omitted
+   * @returns Promise resolving when the settings are written
+   */
+  public async storeColorOverrides(overrides: Record<string, string>, themeId?: string): Promise<void> {
+    const config = vscode.workspace.getConfiguration('modus');
+    const current = config.inspect<Record<string, unknown>>('colorOverrides')?.globalValue ?? {};
+
+    let next: Record<string, unknown>;
+    if (themeId === undefined) {
+      next = { ...current, ...overrides };
+    } else {
+      const key = `[${themeId}]`;
+      const block = current[key];
+      next = {
+        ...current,
+        [key]: { ...(typeof block === 'object' && block !== null ? block : {}), ...overrides }
+      };
+    }
+
+    await config.update('colorOverrides', next, vscode.ConfigurationTarget.Global);
+  }
 }
 
 /**
- * Standard implementation of color resolution service
+ * Generation manifest store backed by the extension's global state
  */
-class StandardColorResolver implements IColorResolver {
-  private readonly transformer: IColorTransformer;
-  private readonly colorReferenceResolver: (name: string, palette: IColorPalette) => string | undefined;
+class GlobalStateManifestStore implements IManifestStore {
+  private static readonly STATE_KEY = 'modus.generationManifest';
+
+  private readonly state: vscode.Memento;
 
   /**
-   * Construct a new color resolver
+   * Construct a new manifest store
    *
-   * @param transformer - Color transformation service
-   * @param colorReferenceResolver - Function to resolve color references
+   * @param state - Global state of the extension
    */
-  constructor(
-    transformer: IColorTransformer,
-    colorReferenceResolver: (name: string, palette: IColorPalette) => string | undefined
-  ) {
-    this.transformer = transformer;
-    this.colorReferenceResolver = colorReferenceResolver;
+  constructor(state: vscode.Memento) {
+    this.state = state;
   }
 
   /**
-   * Resolve a color reference with opacity notation
+   * Load the stored manifest
    *
-   * @param reference - Color reference with opacity (format: "color-name@opacity")
-   * @param palette - Color palette to resolve against
-   * @returns Resolved hex color with opacity applied
-   * @throws {ThemeProcessingError} If the reference is invalid or cannot be resolved
+   * @returns Stored manifest, empty if none was stored
    */
-  public resolveColorWithOpacity(reference: string, palette: IColorPalette): string {
-    const [baseColorName, opacityStr] = reference.split('@');
-    const opacity = this.parseAndValidateOpacity(opacityStr, reference);
-    const baseColor = this.resolveBaseColor(baseColorName, palette);
-
-    return this.transformer.applyOpacity(baseColor, opacity);
+  public load(): IGenerationManifest {
+    return this.state.get<IGenerationManifest>(GlobalStateManifestStore.STATE_KEY, {});
   }
 
   /**
-   * Parse and validate an opacity value
+   * Replace the stored manifest
    *
-   * @param opacityStr - String representation of opacity value
-   * @param fullReference - Full color reference for error context
-   * @returns Validated opacity value between 0 and 1
-   * @throws {ThemeProcessingError} If opacity value is invalid
+   * @param manifest - Manifest to store
+   * @returns Promise resolving when the manifest is stored
    */
-  public parseAndValidateOpacity(opacityStr: string, fullReference: string): number {
-    const opacity = parseFloat(opacityStr);
+  public async save(manifest: IGenerationManifest): Promise<void> {
+    await this.state.update(GlobalStateManifestStore.STATE_KEY, manifest);
+  }
+}
 
-    if (isNaN(opacity) || opacity < 0 || opacity > 1) {
-      throw new ThemeProcessingError(
-        `Invalid opacity value: "${opacityStr}" in "${fullReference}"`,
-        'COLOR_OPACITY_ERROR'
-      );
-    }
+/**
+ * Palette catalog implementation
+ *
+ * Synthesizes every theme on first access and keeps the result until the
+ * configuration or the mapping files change.
+ */
+class PaletteCatalog implements IPaletteCatalog, vscode.Disposable {
+  private readonly orchestrator: IThemeOrchestrator;
+  private readonly configRepository: IConfigurationRepository;
+  private readonly extensionPath: string;
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  private syntheses?: Promise<IThemeSynthesis[]>;
 
-    return opacity;
-  }
+  /** Event fired when cached syntheses are discarded */
+  public readonly onDidChange = this.changeEmitter.event;
 
   /**
-   * Resolve a base color name to its hex value
+   * Construct a new palette catalog
    *
-   * @param baseColorName - Base color name (without opacity suffix)
-   * @param palette - Color palette to resolve against
-   * @returns Resolved hex color
-   * @throws {ThemeProcessingError} If base color cannot be resolved
+   * @param orchestrator - Theme orchestrator used for synthesis
+   * @param configRepository - Source of the current configuration
+   * @param extensionPath - Path to the extension root
    */
-  public resolveBaseColor(baseColorName: string, palette: IColorPalette): string {
-    let baseColorHex: string | undefined;
-
-    if (baseColorName.startsWith('#')) {
-      baseColorHex = baseColorName;
-    }
-    else if (palette.hex[baseColorName]) {
-      baseColorHex = palette.hex[baseColorName];
-    }
-    else if (palette.semantic[baseColorName]) {
-      try {
-        baseColorHex = this.colorReferenceResolver(baseColorName, palette);
-      } catch (error) {
-        throw new ThemeProcessingError(
-          `Cannot apply opacity to "${baseColorName}": color not found in palette`,
-          'COLOR_REFERENCE_ERROR'
-        );
-      }
-    }
-    else if (palette.variants) {
-      baseColorHex = this.findAndResolveVariantColor(baseColorName, palette);
-    }
+  constructor(
+    orchestrator: IThemeOrchestrator,
+    configRepository: IConfigurationRepository,
+    extensionPath: string
+  ) {
+    this.orchestrator = orchestrator;
+    this.configRepository = configRepository;
+    this.extensionPath = extensionPath;
+  }
 
-    if (!baseColorHex) {
-      throw new ThemeProcessingError(
-        `Cannot apply opacity to "${baseColorName}": color not found in palette`,
-        'COLOR_REFERENCE_ERROR'
-      );
+  /**
+   * Get the synthesized themes for the current configuration
+   *
+   * @returns Promise resolving to the syntheses, empty if synthesis failed
+   */
+  public getSyntheses(): Promise<IThemeSynthesis[]> {
+    if (!this.syntheses) {
+      const config = this.configRepository.retrieveConfiguration();
+      this.syntheses = this.orchestrator
+        .synthesizeAllThemes(this.extensionPath, config)
+        .catch(error => {
+          console.error('Failed to synthesize themes for the palette catalog', error);
+          this.syntheses = undefined;
+          return [];
+        });
     }
 
-    return baseColorHex;
+    return this.syntheses;
   }
 
   /**
-   * Find and resolve a color from theme variants
+   * Get the synthesis of the active Modus theme
    *
-   * @param colorName - Color name to find
-   * @param palette - Color palette containing variants
-   * @returns Resolved color or undefined if not found
+   * @returns Promise resolving to the active theme's synthesis, the first
+   * theme's when no Modus theme is active, or undefined if none exist
    */
-  public findAndResolveVariantColor(colorName: string, palette: IColorPalette): string | undefined {
-    if (!palette.variants) {
-      return undefined;
-    }
+  public async getActiveSynthesis(): Promise<IThemeSynthesis | undefined> {
+    const syntheses = await this.getSyntheses();
+    const activeTheme = vscode.workspace
+      .getConfiguration('workbench')
+      .get<string>('colorTheme');
 
-    for (const [themeId, overrides] of Object.entries(palette.variants)) {
-      if (overrides[colorName]) {
-        try {
-          return this.colorReferenceResolver(overrides[colorName], palette);
-        } catch (error) {
-          continue;
-        }
-      }
-    }
+    return syntheses.find(synthesis => synthesis.definition.name === activeTheme) ?? syntheses[0];
+  }
 
-    for (const [themeId, overrides] of Object.entries(palette.variants)) {
-      if (overrides[colorName]) {
-        return overrides[colorName];
-      }
-    }
+  /**
+   * Discard cached syntheses so they are rebuilt on next access
+   */
+  public invalidate(): void {
+    this.syntheses = undefined;
+    this.changeEmitter.fire();
+  }
 
-    return undefined;
+  /**
+   * Release the change event emitter
+   */
+  public dispose(): void {
+    this.changeEmitter.dispose();
   }
 }
 
 /**
- * Modus theme source analyzer implementation
+ * Editor support for modus.colorOverrides in settings documents
+ *
+ * Provides palette name completions, per-variant hover previews and
+ * diagnostics with "did you mean" quick fixes for unknown names.
  */
-class ModusThemeAnalyzer implements IThemeAnalyzer {
-  private readonly colorTransformer: IColorTransformer;
-  private readonly colorResolver: IColorResolver;
+class ColorOverridesLanguageFeatures implements
+  vscode.CompletionItemProvider,
+  vscode.HoverProvider,
+  vscode.CodeActionProvider,
+  vscode.Disposable {
+  private static readonly DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+    { language: 'jsonc', pattern: '**/settings.json' },
+    { language: 'json', pattern: '**/settings.json' },
+    { language: 'jsonc', pattern: '**/*.code-workspace' }
+  ];
+
+  private static readonly DIAGNOSTIC_CODE = 'modus.unknownColor';
+  private static readonly SELECTOR_DIAGNOSTIC_CODE = 'modus.unknownSelector';
+  private static readonly BLOCK_DIAGNOSTIC_CODE = 'modus.invalidThemeOverrides';
+  private static readonly SETTING = 'modus.colorOverrides';
+
+  private readonly catalog: IPaletteCatalog;
+  private readonly analyzer: IThemeAnalyzer;
+  private readonly reader: JsoncEntryReader;
+  private readonly diagnostics: vscode.DiagnosticCollection;
+  private readonly disposables: vscode.Disposable[] = [];
+  private knownNames = new Set<string>();
+  private themes: IThemeDefinition[] = [];
+
+  /**
+   * Construct new color override language features
+   *
+   * @param catalog - Palette catalog supplying merged palettes
+   * @param analyzer - Theme analyzer for color resolution
+   */
+  constructor(catalog: IPaletteCatalog, analyzer: IThemeAnalyzer) {
+    this.catalog = catalog;
+    this.analyzer = analyzer;
+    this.reader = new JsoncEntryReader();
+    this.diagnostics = vscode.languages.createDiagnosticCollection('modus');
+  }
 
   /**
-   * Construct a new Modus theme analyzer
+   * Register providers and diagnostics listeners
    */
-  constructor() {
-    this.colorTransformer = new StandardColorTransformer();
-    this.colorResolver = new StandardColorResolver(
-      this.colorTransformer,
-      this.resolveColorReference.bind(this)
+  public register(): void {
+    const selector = ColorOverridesLanguageFeatures.DOCUMENT_SELECTOR;
+
+    this.disposables.push(
+      this.diagnostics,
+      vscode.languages.registerCompletionItemProvider(selector, this, '"'),
+      vscode.languages.registerHoverProvider(selector, this),
+      vscode.languages.registerCodeActionsProvider(selector, this, {
+        providedCodeActionKinds: [vscode.CodeActionKind.QuickFix]
+      }),
+      vscode.workspace.onDidOpenTextDocument(document => this.updateDiagnostics(document)),
+      vscode.workspace.onDidChangeTextDocument(event => this.updateDiagnostics(event.document)),
+      vscode.workspace.onDidCloseTextDocument(document => this.diagnostics.delete(document.uri)),
+      this.catalog.onDidChange(() => this.refreshDiagnostics())
     );
+
+    this.refreshDiagnostics();
   }
 
   /**
-   * Analyze a Modus theme source file
+   * Suggest palette names for override keys and values
    *
-   * @param filePath - Path to the Modus theme file
-   * @returns Promise resolving to extracted color definitions
+   * @param document - Settings document
+   * @param position - Cursor position
+   * @returns Completion items, or undefined outside the overrides object
    */
-  public async analyzeSource(filePath: string): Promise<IColor> {
-    if (!filePath) {
-      throw new ThemeProcessingError('File path is required', 'INVALID_PATH');
+  public async provideCompletionItems(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.CompletionItem[] | undefined> {
+    const offset = document.offsetAt(position);
+    const entry = this.findEntryAt(document, offset);
+    if (!entry) {
+      return undefined;
     }
 
-    try {
-      const content = await fs.readFile(filePath, 'utf8');
-      const hex: Record<string, string> = {};
-      const semantic: Record<string, string> = {};
+    const synthesis = await this.catalog.getActiveSynthesis();
+    if (!synthesis) {
+      return undefined;
+    }
 
-      // (color-name "#RRGGBB")
-      //
-      const colorRegex = /\(([a-zA-Z0-9-]+)\s+"(#[0-9a-fA-F]{6})"\)/g;
-      let match;
-      while ((match = colorRegex.exec(content)) !== null) {
-        hex[match[1]] = match[2];
-      }
+    const range = document.getWordRangeAtPosition(position, /[A-Za-z0-9.#-]+/);
+    const { palette } = synthesis;
+    const names = [...new Set([...Object.keys(palette.hex), ...Object.keys(palette.semantic)])];
 
-      // (semantic-name color-name)
+    return names.map(name => {
+      const item = new vscode.CompletionItem(name, vscode.CompletionItemKind.Color);
+      const color = this.tryResolve(name, palette);
+
+      // A Color item whose documentation is a hex string is rendered with a
+      // swatch by the suggest widget.
       //
-      const semanticRegex = /\(([a-zA-Z0-9-]+)\s+(?!#)([a-zA-Z0-9-]+)\)/g;
-      while ((match = semanticRegex.exec(content)) !== null) {
-        semantic[match[1]] = match[2];
+      if (color) {
+        item.documentation = color.slice(0, 7);
+        item.detail = `${color} in ${synthesis.definition.name}`;
       }
-
-      if (Object.keys(hex).length === 0) {
-        throw new ThemeProcessingError(`No color definitions found in ${filePath}`, 'PARSE_ERROR');
+      if (range) {
+        item.range = range;
       }
 
-      return { hex, semantic };
-    } catch (error) {
-      if (error instanceof ThemeProcessingError) {
-        throw error;
-      }
-      throw new ThemeProcessingError(
-        `Failed to analyze theme source: ${error instanceof Error ? error.message : String(error)}`,
-        'PARSE_ERROR',
-        error instanceof Error ? error : undefined
-      );
-    }
+      return item;
+    });
   }
 
   /**
-   * Load palette extensions from JSON file
+   * Show the resolved color of a palette name for every Modus variant
    *
-   * @param filePath - Path to extensions JSON file
-   * @returns Promise resolving to the palette extensions
+   * @param document - Settings document
+   * @param position - Cursor position
+   * @returns Hover, or undefined outside palette names
    */
-  public async loadExtensions(filePath: string): Promise<IColorPalette> {
-    try {
-      const content = await fs.readFile(filePath, 'utf8');
-      const extensions = JSON.parse(content) as IColorPalette;
-      return extensions;
-    } catch (error) {
-      return { hex: {}, semantic: {} };
+  public async provideHover(
+    document: vscode.TextDocument,
+    position: vscode.Position
+  ): Promise<vscode.Hover | undefined> {
+    const offset = document.offsetAt(position);
+    const entry = this.findEntryAt(document, offset);
+    if (!entry) {
+      return undefined;
+    }
+
+    const name = this.collectNames(entry).find(candidate =>
+      offset >= candidate.start && offset <= candidate.end
+    );
+    if (!name) {
+      return undefined;
+    }
+
+    const syntheses = await this.catalog.getSyntheses();
+    const markdown = new vscode.MarkdownString();
+    markdown.appendMarkdown(`**${name.name}**\n\n| Theme | Color |\n| --- | --- |\n`);
+
+    for (const synthesis of syntheses) {
+      const color = this.tryResolve(name.name, synthesis.palette);
+      markdown.appendMarkdown(`| ${synthesis.definition.name} | ${color ? `\`${color}\`` : '_unresolved_'} |\n`);
     }
+
+    return new vscode.Hover(
+      markdown,
+      new vscode.Range(document.positionAt(name.start), document.positionAt(name.end))
+    );
   }
 
   /**
-   * Merge multiple color sources into unified palette
+   * Offer replacements for unknown palette names
    *
-   * @param base - Base color definitions
-   * @param extensions - Extension color definitions
-   * @param overrides - User override color definitions
-   * @param themeId - Target theme identifier
-   * @returns Unified color palette
+   * @param document - Settings document
+   * @param range - Range the actions are requested for
+   * @param context - Diagnostics in the range
+   * @returns Quick fixes replacing the unknown name
    */
-  public mergeColorSources(
-    base: IColor,
-    extensions: IColorPalette,
-    overrides: Record<string, string>,
-    themeId: string
-  ): IColorPalette {
-    const result: IColorPalette = {
-      hex: { ...base.hex },
-      semantic: { ...base.semantic }
-    };
-
-    Object.assign(result.hex, extensions.hex || {});
-    Object.assign(result.semantic, extensions.semantic || {});
+  public provideCodeActions(
+    document: vscode.TextDocument,
+    range: vscode.Range | vscode.Selection,
+    context: vscode.CodeActionContext
+  ): vscode.CodeAction[] {
+    const actions: vscode.CodeAction[] = [];
+
+    for (const diagnostic of context.diagnostics) {
+      if (diagnostic.code !== ColorOverridesLanguageFeatures.DIAGNOSTIC_CODE) {
+        continue;
+      }
 
-    if (extensions.variants && extensions.variants[themeId]) {
-      Object.entries(extensions.variants[themeId]).forEach(([key, value]) => {
-        if (value.startsWith('#')) {
-          result.hex[key] = value;
-        } else {
-          result.semantic[key] = value;
-        }
+      const unknown = document.getText(diagnostic.range);
+      this.suggestNames(unknown, this.knownNames).forEach((suggestion, index) => {
+        const action = new vscode.CodeAction(`Change to "${suggestion}"`, vscode.CodeActionKind.QuickFix);
+        action.edit = new vscode.WorkspaceEdit();
+        action.edit.replace(document.uri, diagnostic.range, suggestion);
+        action.diagnostics = [diagnostic];
+        action.isPreferred = index === 0;
+        actions.push(action);
       });
     }
 
-    Object.entries(overrides).forEach(([key, value]) => {
-      if (value.startsWith('#')) {
-        result.hex[key] = value;
-      } else {
-        result.semantic[key] = value;
-      }
-    });
-
-    return result;
+    return actions;
   }
 
   /**
-   * Resolve a symbolic color reference to its hex value
-   *
-   * @param name - Color name or reference
-   * @param palette - Color palette to resolve against
-   * @returns Resolved hex color value or undefined if not resolvable
+   * Release providers, listeners and diagnostics
    */
-  public resolveColorReference(name: string, palette: IColorPalette): string | undefined {
-    if (!name || name.trim() === '') {
-      return undefined;
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
     }
+  }
 
-    // Supports opacity syntax: "color-name@opacity" where opacity is a value
-    // between 0 and 1 Example: "bg-dim@0.5" applies 50% opacity to the bg-dim
-    // color
-    //
-    if (name.includes('@')) {
-      return this.colorResolver.resolveColorWithOpacity(name, palette);
+  /**
+   * Recompute the known names and the diagnostics of open settings documents
+   */
+  private async refreshDiagnostics(): Promise<void> {
+    const syntheses = await this.catalog.getSyntheses();
+
+    this.themes = syntheses.map(synthesis => synthesis.definition);
+    this.knownNames = new Set(['unspecified']);
+    for (const { palette } of syntheses) {
+      Object.keys(palette.hex).forEach(name => this.knownNames.add(name));
+      Object.keys(palette.semantic).forEach(name => this.knownNames.add(name));
     }
 
-    if (name.startsWith('#')) {
-      return name;
+    for (const document of vscode.workspace.textDocuments) {
+      this.updateDiagnostics(document);
     }
+  }
 
-    if (palette.hex[name]) {
-      return palette.hex[name];
+  /**
+   * Report unknown palette names and override selectors in a settings
+   * document
+   *
+   * @param document - Document to check
+   */
+  private updateDiagnostics(document: vscode.TextDocument): void {
+    if (!vscode.languages.match(ColorOverridesLanguageFeatures.DOCUMENT_SELECTOR, document)) {
+      return;
     }
 
-    if (palette.semantic[name]) {
-      return this.resolveColorReference(palette.semantic[name], palette);
+    // Before the first synthesis completes every name would look unknown.
+    //
+    if (this.knownNames.size <= 1) {
+      this.diagnostics.delete(document.uri);
+      return;
     }
 
-    if (palette.variants) {
-      const variantColor = this.colorResolver.findAndResolveVariantColor(name, palette);
-      if (variantColor) {
-        return this.resolveColorReference(variantColor, palette);
-      }
-    }
+    const diagnostics: vscode.Diagnostic[] = [];
 
-    throw new ThemeProcessingError(
-      `Invalid color reference: "${name}" not found in palette`,
-      'COLOR_REFERENCE_ERROR'
-    );
-  }
-}
+    for (const block of this.reader.findObjects(document.getText(), ColorOverridesLanguageFeatures.SETTING)) {
+      for (const scope of block.blocks.filter(candidate => candidate.path.length === 0)) {
+        const selector = /^\[(.+)\]$/.exec(scope.key)?.[1];
+        if (selector === undefined || this.themes.some(theme =>
+          ThemeOrchestrationService.matchesThemeSelector(selector, theme)
+        )) {
+          continue;
+        }
 
-/**
- * Theme factory implementation
- */
-class VSCodeThemeFactory implements IThemeFactory {
-  private readonly analyzer: IThemeAnalyzer;
+        const diagnostic = new vscode.Diagnostic(
+          new vscode.Range(document.positionAt(scope.keyStart), document.positionAt(scope.keyEnd)),
+          `Unknown theme selector "${selector}". Use a theme id, "light", "dark" or a theme group ` +
+          '("operandi", "vivendi", "tinted", "deuteranopia", "tritanopia").',
+          vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.code = ColorOverridesLanguageFeatures.SELECTOR_DIAGNOSTIC_CODE;
+        diagnostic.source = 'Modus Themes';
+        diagnostics.push(diagnostic);
+      }
+
+      for (const entry of block.entries) {
+        if (entry.path.length === 0 && /^\[.+\]$/.test(entry.key)) {
+          const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(document.positionAt(entry.keyStart), document.positionAt(entry.keyEnd)),
+            `Theme overrides "${entry.key}" must be an object of color overrides and are ignored.`,
+            vscode.DiagnosticSeverity.Warning
+          );
+          diagnostic.code = ColorOverridesLanguageFeatures.BLOCK_DIAGNOSTIC_CODE;
+          diagnostic.source = 'Modus Themes';
+          diagnostics.push(diagnostic);
+          continue;
+        }
+
+        for (const name of this.collectNames(entry)) {
+          if (this.knownNames.has(name.name)) {
+            continue;
+          }
+
+          const suggestions = this.suggestNames(name.name, this.knownNames);
+          const hint = suggestions.length > 0 ? ` Did you mean "${suggestions[0]}"?` : '';
+          const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(document.positionAt(name.start), document.positionAt(name.end)),
+            `Unknown Modus palette color "${name.name}".${hint}`,
+            vscode.DiagnosticSeverity.Warning
+          );
+          diagnostic.code = ColorOverridesLanguageFeatures.DIAGNOSTIC_CODE;
+          diagnostic.source = 'Modus Themes';
+          diagnostics.push(diagnostic);
+        }
+      }
+    }
+
+    this.diagnostics.set(document.uri, diagnostics);
+  }
+
+  /**
+   * Find the override entry whose key or value contains an offset
+   *
+   * @param document - Settings document
+   * @param offset - Document offset
+   * @returns Matching entry or undefined
+   */
+  private findEntryAt(document: vscode.TextDocument, offset: number): IJsoncEntry | undefined {
+    for (const block of this.reader.findObjects(document.getText(), ColorOverridesLanguageFeatures.SETTING)) {
+      if (offset < block.start || offset > block.end) {
+        continue;
+      }
+
+      return block.entries.find(entry =>
+        (offset >= entry.keyStart && offset <= entry.keyEnd) ||
+        (entry.valueStart !== undefined && entry.valueEnd !== undefined &&
+          offset >= entry.valueStart && offset <= entry.valueEnd)
+      );
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Collect the palette names referenced by an entry with their offsets
+   *
+   * The key is a name on its own. Values may be hex colors, "name@opacity"
+   * references or color functions, from which only the names are taken:
+   * function names, amounts and opacities are skipped.
+   *
+   * @param entry - Override entry
+   * @returns Names with document offsets
+   */
+  private collectNames(entry: IJsoncEntry): Array<{ name: string; start: number; end: number }> {
+    const names: Array<{ name: string; start: number; end: number }> = [];
+
+    if (entry.key !== '') {
+      names.push({ name: entry.key, start: entry.keyStart, end: entry.keyEnd });
+    }
+
+    if (entry.value === undefined || entry.valueStart === undefined) {
+      return names;
+    }
+
+    const pattern = /[^\s(),@]+/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(entry.value)) !== null) {
+      const before = entry.value[match.index - 1];
+      const after = entry.value[match.index + match[0].length];
+
+      if (before === '@' || after === '(' || match[0].startsWith('#') || /^\d*\.?\d+%?$/.test(match[0])) {
+        continue;
+      }
+
+      names.push({
+        name: match[0],
+        start: entry.valueStart + match.index,
+        end: entry.valueStart + match.index + match[0].length
+      });
+    }
+
+    return names;
+  }
+
+  /**
+   * Resolve a name without throwing
+   *
+   * @param name - Palette name
+   * @param palette - Palette to resolve against
+   * @returns Resolved color or undefined
+   */
+  private tryResolve(name: string, palette: IColorPalette): string | undefined {
+    try {
+      return this.analyzer.resolveColorReference(name, palette);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Suggest the closest known names for an unknown one
+   *
+   * @param name - Unknown name
+   * @param known - Known names
+   * @returns Up to three names within a small edit distance, closest first
+   */
+  private suggestNames(name: string, known: Set<string>): string[] {
+    const threshold = Math.max(2, Math.floor(name.length / 3));
+
+    return [...known]
+      .map(candidate => ({ candidate, distance: this.editDistance(name, candidate) }))
+      .filter(({ distance }) => distance <= threshold)
+      .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+      .slice(0, 3)
+      .map(({ candidate }) => candidate);
+  }
+
+  /**
+   * Compute the Levenshtein distance between two strings
+   *
+   * @param a - First string
+   * @param b - Second string
+   * @returns Minimum number of single-character edits
+   */
+  private editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+
+    return previous[b.length];
+  }
+}
+
+/**
+ * Color swatches for palette references in mapping and settings documents
+ *
+ * Values are resolved against the active Modus theme, except in
+ * modus-palette.json where each variant block uses its own theme. Picking a
+ * color replaces hex values and override values in place; for symbolic
+ * values in the mapping files it stores a hex override for the referenced
+ * palette name instead, leaving the mapping untouched.
+ */
+class PaletteColorProvider implements vscode.DocumentColorProvider, vscode.Disposable {
+  private static readonly DOCUMENT_SELECTOR: vscode.DocumentSelector = [
+    { language: 'json', pattern: '**/config/modus-{editor,editor-experimental,tokens,palette}.json' },
+    { language: 'jsonc', pattern: '**/config/modus-{editor,editor-experimental,tokens,palette}.json' },
+    { language: 'jsonc', pattern: '**/settings.json' },
+    { language: 'json', pattern: '**/settings.json' },
+    { language: 'jsonc', pattern: '**/*.code-workspace' }
+  ];
+
+  private static readonly SETTING = 'modus.colorOverrides';
+
+  /** Delay before picked colors are written, as the picker reports every drag step */
+  private static readonly STORE_DELAY = 500;
+
+  private readonly catalog: IPaletteCatalog;
+  private readonly analyzer: IThemeAnalyzer;
+  private readonly configRepository: IConfigurationRepository;
+  private readonly reader = new JsoncEntryReader();
+  private readonly pendingOverrides = new Map<string, Map<string, string>>();
+  private storeTimer?: NodeJS.Timeout;
+  private storing: Promise<void> = Promise.resolve();
 
   /**
-   * Construct new theme factory
+   * Construct a new palette color provider
    *
+   * @param catalog - Palette catalog supplying merged palettes
    * @param analyzer - Theme analyzer for color resolution
+   * @param configRepository - Repository storing picked overrides
    */
-  constructor(analyzer: IThemeAnalyzer) {
+  constructor(catalog: IPaletteCatalog, analyzer: IThemeAnalyzer, configRepository: IConfigurationRepository) {
+    this.catalog = catalog;
     this.analyzer = analyzer;
+    this.configRepository = configRepository;
+  }
+
+  /**
+   * Register the provider for mapping and settings documents
+   *
+   * @returns Disposable for the registration
+   */
+  public register(): vscode.Disposable {
+    return vscode.languages.registerColorProvider(PaletteColorProvider.DOCUMENT_SELECTOR, this);
   }
 
   /**
-   * Synthesize theme from components
+   * Resolve every color-valued string of a document
    *
-   * @param theme - Theme definition metadata
-   * @param palette - Color palette for token and editor coloring
-   * @param editorMappings - Editor element color assignments
-   * @param tokenMappings - Token color assignments
-   * @returns Constructed theme
+   * @param document - Mapping or settings document
+   * @returns Color information for each resolvable value
    */
-  public synthesizeTheme(
-    theme: IThemeDefinition,
-    palette: IColorPalette,
-    editorMappings: IEditorMapping[],
-    tokenMappings: ITokenMapping[]
-  ): IThemeVSC {
-    const { id, name, type } = theme;
+  public async provideDocumentColors(document: vscode.TextDocument): Promise<vscode.ColorInformation[]> {
+    const swatches = await this.locateSwatches(document);
+    return swatches.map(swatch => new vscode.ColorInformation(swatch.range, swatch.color));
+  }
 
-    const colors = this.createEditorColorMap(editorMappings, palette);
-    const { textMateTokens, semanticTokens } = this.createTokenMappings(tokenMappings, palette);
+  /**
+   * Present a picked color and store it as an override where needed
+   *
+   * Mapping files keep their text; the picked color becomes an override
+   * scoped to the theme the swatch was resolved against. In settings
+   * documents the value itself is the override and is replaced.
+   *
+   * @param color - Picked color
+   * @param context - Document and range of the swatch
+   * @returns Single hex presentation
+   */
+  public provideColorPresentations(
+    color: vscode.Color,
+    context: { readonly document: vscode.TextDocument; readonly range: vscode.Range }
+  ): vscode.ColorPresentation[] {
+    const hex = this.formatHex(color);
+    const presentation = new vscode.ColorPresentation(hex);
+
+    if (this.isSettingsDocument(context.document)) {
+      presentation.textEdit = vscode.TextEdit.replace(context.range, hex);
+      return [presentation];
+    }
 
-    return {
-      id,
+    presentation.textEdit = vscode.TextEdit.replace(context.range, context.document.getText(context.range));
+    this.scheduleOverride(context.document, context.range, hex).catch(error => {
+      vscode.window.showErrorMessage(
+        `Modus Themes: Failed to store picked color. ${error instanceof Error ? error.message : String(error)}`
+      );
+    });
+
+    return [presentation];
+  }
+
+  /**
+   * Write pending overrides and stop the store timer
+   */
+  public dispose(): void {
+    if (this.storeTimer) {
+      clearTimeout(this.storeTimer);
+      this.storeTimer = undefined;
+    }
+    this.storePendingOverrides();
+  }
+
+  /**
+   * Resolve the color-valued strings of a document with the theme each
+   * was resolved against
+   *
+   * @param document - Mapping or settings document
+   * @returns Swatches in document order
+   */
+  private async locateSwatches(document: vscode.TextDocument): Promise<Array<{
+    entry: IJsoncEntry;
+    synthesis: IThemeSynthesis;
+    range: vscode.Range;
+    color: vscode.Color;
+  }>> {
+    const syntheses = await this.catalog.getSyntheses();
+    const active = await this.catalog.getActiveSynthesis();
+    if (!active) {
+      return [];
+    }
+
+    const text = document.getText();
+    const entries = this.isSettingsDocument(document)
+      ? this.reader.findObjects(text, PaletteColorProvider.SETTING).flatMap(object => object.entries)
+      : this.reader.readDocument(text)?.entries ?? [];
+
+    const swatches = [];
+    for (const entry of entries) {
+      if (entry.value === undefined || entry.valueStart === undefined || entry.valueEnd === undefined) {
+        continue;
+      }
+
+      // Variant blocks of modus-palette.json and "[selector]" override
+      // blocks only apply to their own themes
+      //
+      const scope = entry.path[0] === 'variants' ? entry.path[1] : /^\[(.+)\]$/.exec(entry.path[0] ?? '')?.[1];
+      const synthesis = scope === undefined
+        ? active
+        : [active, ...syntheses].find(candidate =>
+          ThemeOrchestrationService.matchesThemeSelector(scope, candidate.definition)
+        ) ?? active;
+
+      const color = this.parseHex(this.tryResolve(entry.value, synthesis.palette));
+      if (color) {
+        swatches.push({
+          entry,
+          synthesis,
+          range: new vscode.Range(document.positionAt(entry.valueStart), document.positionAt(entry.valueEnd)),
+          color
+        });
+      }
+    }
+
+    return swatches;
+  }
+
+  /**
+   * Queue the override a picked color stands for, skipping the color the
+   * swatch already shows
+   *
+   * The picker requests presentations for the initial color as well, which
+   * must not be written back as an override.
+   *
+   * @param document - Mapping document holding the swatch
+   * @param range - Range of the swatch
+   * @param hex - Picked color
+   */
+  private async scheduleOverride(document: vscode.TextDocument, range: vscode.Range, hex: string): Promise<void> {
+    const swatch = (await this.locateSwatches(document)).find(candidate => candidate.range.isEqual(range));
+    if (!swatch?.entry.value) {
+      return;
+    }
+
+    const target = this.findOverrideTarget(document, swatch.entry.key, swatch.entry.path, swatch.entry.value);
+    if (!target) {
+      return;
+    }
+
+    const themeId = swatch.synthesis.definition.id;
+    const pending = this.pendingOverrides.get(themeId) ?? new Map<string, string>();
+    this.pendingOverrides.set(themeId, pending);
+
+    const current = this.tryResolve(swatch.entry.value, swatch.synthesis.palette);
+    if (current?.toLowerCase() === hex.toLowerCase()) {
+      pending.delete(target.name);
+      return;
+    }
+
+    pending.set(target.name, target.opaque ? hex.slice(0, 7) : hex);
+
+    if (this.storeTimer) {
+      clearTimeout(this.storeTimer);
+    }
+    this.storeTimer = setTimeout(() => {
+      this.storeTimer = undefined;
+      this.storePendingOverrides();
+    }, PaletteColorProvider.STORE_DELAY);
+  }
+
+  /**
+   * Determine which override name a mapping value is changed through
+   *
+   * A bare reference overrides the referenced name; an opacity suffix stays
+   * in the mapping, so only the opaque color is stored. Palette entries
+   * override their own name, and other editor color values, such as color
+   * functions, override the element id. Token mappings have no name of their
+   * own to override, so only their bare references can be picked.
+   *
+   * @param document - Mapping document
+   * @param key - Entry key
+   * @param path - Enclosing object keys of the entry
+   * @param value - Entry value
+   * @returns Override name and whether to store the opaque color, or
+   * undefined if the value cannot be overridden
+   */
+  private findOverrideTarget(
+    document: vscode.TextDocument,
+    key: string,
+    path: string[],
+    value: string
+  ): { name: string; opaque: boolean } | undefined {
+    if (/modus-palette\.json$/.test(document.uri.path)) {
+      return { name: key, opaque: false };
+    }
+
+    const reference = /^([a-zA-Z0-9.-]+)(@[0-9.]+)?$/.exec(value);
+    if (reference) {
+      return { name: reference[1], opaque: reference[2] !== undefined };
+    }
+
+    if (/modus-editor(-experimental)?\.json$/.test(document.uri.path)) {
+      return { name: [...path, key].join('.'), opaque: false };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Write queued overrides to the user settings, one theme block at a time
+   *
+   * Writes are chained, as each one reads the setting it updates.
+   */
+  private storePendingOverrides(): void {
+    const batches = [...this.pendingOverrides].filter(([, overrides]) => overrides.size > 0);
+    this.pendingOverrides.clear();
+
+    for (const [themeId, overrides] of batches) {
+      this.storing = this.storing
+        .then(() => this.configRepository.storeColorOverrides(Object.fromEntries(overrides), themeId))
+        .catch(error => {
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to store picked color. ${error instanceof Error ? error.message : String(error)}`
+          );
+        });
+    }
+  }
+
+  /**
+   * Check whether a document is a settings document rather than a mapping file
+   *
+   * @param document - Document to check
+   * @returns True for settings.json and workspace files
+   */
+  private isSettingsDocument(document: vscode.TextDocument): boolean {
+    return /(^|[\\/])settings\.json$|\.code-workspace$/.test(document.uri.path);
+  }
+
+  /**
+   * Resolve a value without throwing
+   *
+   * @param value - Palette name, reference or expression
+   * @param palette - Palette to resolve against
+   * @returns Resolved color or undefined
+   */
+  private tryResolve(value: string, palette: IColorPalette): string | undefined {
+    try {
+      return this.analyzer.resolveColorReference(value, palette);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  /**
+   * Convert a hex color to an editor color
+   *
+   * @param hex - Color in #RRGGBB or #RRGGBBAA form
+   * @returns Editor color, or undefined for other values
+   */
+  private parseHex(hex: string | undefined): vscode.Color | undefined {
+    const match = hex && /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})?$/i.exec(hex);
+    if (!match) {
+      return undefined;
+    }
+
+    const [red, green, blue, alpha] = match.slice(1).map(part => part ?? 'ff');
+    return new vscode.Color(
+      parseInt(red, 16) / 255,
+      parseInt(green, 16) / 255,
+      parseInt(blue, 16) / 255,
+      parseInt(alpha, 16) / 255
+    );
+  }
+
+  /**
+   * Convert an editor color to hex, omitting full opacity
+   *
+   * @param color - Editor color
+   * @returns Color in #RRGGBB or #RRGGBBAA form
+   */
+  private formatHex(color: vscode.Color): string {
+    const channel = (value: number): string =>
+      Math.round(value * 255).toString(16).padStart(2, '0');
+
+    const hex = `#${channel(color.red)}${channel(color.green)}${channel(color.blue)}`;
+    return color.alpha < 1 ? `${hex}${channel(color.alpha)}` : hex;
+  }
+}
+
+/**
+ * Explorer view listing the merged palette of every theme
+ */
+class PaletteTreeProvider implements vscode.TreeDataProvider<PaletteTreeNode>, vscode.Disposable {
+  private static readonly VIEW_ID = 'modusPalette';
+
+  private readonly catalog: IPaletteCatalog;
+  private readonly analyzer: IThemeAnalyzer;
+  private readonly configRepository: IConfigurationRepository;
+  private readonly swatchDirectory: string;
+  private readonly changeEmitter = new vscode.EventEmitter<PaletteTreeNode | undefined>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /** Event fired when the tree must be re-read */
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  /**
+   * Construct a new palette tree provider
+   *
+   * @param catalog - Palette catalog supplying merged palettes
+   * @param analyzer - Theme analyzer for color resolution
+   * @param configRepository - Repository storing added overrides
+   * @param storagePath - Extension storage directory for swatch icons
+   */
+  constructor(
+    catalog: IPaletteCatalog,
+    analyzer: IThemeAnalyzer,
+    configRepository: IConfigurationRepository,
+    storagePath: string
+  ) {
+    this.catalog = catalog;
+    this.analyzer = analyzer;
+    this.configRepository = configRepository;
+    this.swatchDirectory = path.join(storagePath, 'swatches');
+  }
+
+  /**
+   * Register the view and its context commands
+   */
+  public register(): void {
+    this.disposables.push(
+      this.changeEmitter,
+      vscode.window.registerTreeDataProvider(PaletteTreeProvider.VIEW_ID, this),
+      this.catalog.onDidChange(() => this.changeEmitter.fire(undefined)),
+      vscode.commands.registerCommand('modus.copyPaletteHex', (node: PaletteTreeNode) => {
+        if (node?.kind === 'entry' && node.resolved) {
+          vscode.env.clipboard.writeText(node.resolved);
+        }
+      }),
+      vscode.commands.registerCommand('modus.copyPaletteName', (node: PaletteTreeNode) => {
+        if (node?.kind === 'entry') {
+          vscode.env.clipboard.writeText(node.name);
+        }
+      }),
+      vscode.commands.registerCommand('modus.addPaletteOverride', (node: PaletteTreeNode) =>
+        node?.kind === 'entry' ? this.addOverride(node) : undefined
+      )
+    );
+  }
+
+  /**
+   * Build the tree item of a node
+   *
+   * @param node - Theme or entry node
+   * @returns Tree item, with a swatch icon for resolved entries
+   */
+  public async getTreeItem(node: PaletteTreeNode): Promise<vscode.TreeItem> {
+    if (node.kind === 'theme') {
+      const item = new vscode.TreeItem(node.synthesis.definition.name, vscode.TreeItemCollapsibleState.Collapsed);
+      item.description = node.synthesis.definition.type;
+      item.contextValue = 'modusPaletteTheme';
+      return item;
+    }
+
+    const item = new vscode.TreeItem(node.name, vscode.TreeItemCollapsibleState.None);
+    const resolved = node.resolved ?? 'unresolved';
+
+    item.description = node.resolved === undefined || node.value === node.resolved
+      ? `${node.value} · ${node.source}`
+      : `${node.value} → ${node.resolved} · ${node.source}`;
+    item.tooltip = `${node.name}: ${node.value}\nResolved: ${resolved}\nSource: ${node.source}`;
+    item.contextValue = 'modusPaletteEntry';
+
+    if (node.resolved) {
+      item.iconPath = await this.createSwatch(node.resolved).catch(() => undefined);
+    }
+
+    return item;
+  }
+
+  /**
+   * List themes at the root and merged entries below each theme
+   *
+   * @param node - Parent node, undefined for the root
+   * @returns Child nodes
+   */
+  public async getChildren(node?: PaletteTreeNode): Promise<PaletteTreeNode[]> {
+    if (!node) {
+      const syntheses = await this.catalog.getSyntheses();
+      return syntheses.map(synthesis => ({ kind: 'theme', synthesis }));
+    }
+
+    if (node.kind !== 'theme') {
+      return [];
+    }
+
+    const { palette } = node.synthesis;
+    const values = { ...palette.hex, ...palette.semantic };
+
+    return Object.entries(values).map(([name, value]) => ({
+      kind: 'entry',
+      synthesis: node.synthesis,
       name,
-      type,
-      colors,
-      tokens: {
-        textMate: textMateTokens,
-        semantic: semanticTokens
+      value,
+      source: palette.origins?.[name] ?? PaletteSource.UPSTREAM,
+      resolved: this.tryResolve(name, palette)
+    }));
+  }
+
+  /**
+   * Release the view, commands and event emitter
+   */
+  public dispose(): void {
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+  }
+
+  /**
+   * Prompt for a new value of an entry and store it as an override
+   *
+   * @param node - Entry to override
+   */
+  private async addOverride(node: Extract<PaletteTreeNode, { kind: 'entry' }>): Promise<void> {
+    const value = await vscode.window.showInputBox({
+      title: `Override ${node.name}`,
+      prompt: 'Hex color, palette name, name@opacity or color function',
+      value: node.value,
+      validateInput: input => this.tryResolve(input.trim(), node.synthesis.palette) || input.trim() === 'unspecified'
+        ? undefined
+        : `"${input}" does not resolve to a color in ${node.synthesis.definition.name}`
+    });
+
+    if (value === undefined || value.trim() === node.value) {
+      return;
+    }
+
+    try {
+      await this.configRepository.storeColorOverrides({ [node.name]: value.trim() });
+    } catch (error) {
+      vscode.window.showErrorMessage(`Modus Themes: Failed to store the override for ${node.name}.`);
+    }
+  }
+
+  /**
+   * Write a swatch icon for a color, reusing an existing one
+   *
+   * @param hex - Color in #RRGGBB or #RRGGBBAA form
+   * @returns URI of the swatch icon
+   */
+  private async createSwatch(hex: string): Promise<vscode.Uri> {
+    const file = path.join(this.swatchDirectory, `${hex.slice(1).toLowerCase()}.svg`);
+
+    if (!fsSync.existsSync(file)) {
+      await fs.mkdir(this.swatchDirectory, { recursive: true });
+      await fs.writeFile(
+        file,
+        `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16">` +
+        `<rect x="2" y="2" width="12" height="12" rx="2" fill="${hex}" stroke="#80808080"/></svg>`
+      );
+    }
+
+    return vscode.Uri.file(file);
+  }
+
+  /**
+   * Resolve a name without throwing
+   *
+   * @param name - Palette name or expression
+   * @param palette - Palette to resolve against
+   * @returns Resolved color or undefined
+   */
+  private tryResolve(name: string, palette: IColorPalette): string | undefined {
+    try {
+      return this.analyzer.resolveColorReference(name, palette);
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Live mode: mirrors theme changes into the workbench customization settings
+ *
+ * VS Code keeps the theme files it loaded at startup until the window is
+ * reloaded. Live mode compares freshly synthesized themes with those files
+ * and writes the differences to workbench.colorCustomizations,
+ * editor.tokenColorCustomizations and
+ * editor.semanticTokenColorCustomizations under "[Theme Name]" scopes, which
+ * apply immediately. Once the loaded files catch up the differences vanish
+ * and so do the customizations.
+ */
+class LiveCustomizationManager {
+  private static readonly STATE_KEY = 'modus.liveCustomizations';
+
+  private readonly context: vscode.ExtensionContext;
+  private readonly serializer: IThemeSerializer;
+  private readonly loadedThemes = new Map<string, ISerializedTheme>();
+
+  /**
+   * Construct a new live customization manager
+   *
+   * @param context - Extension context holding the added customizations
+   * @param serializer - Serializer producing theme file contents
+   */
+  constructor(context: vscode.ExtensionContext, serializer: IThemeSerializer) {
+    this.context = context;
+    this.serializer = serializer;
+  }
+
+  /**
+   * Remember the theme files the window was started with
+   *
+   * Must run before the themes are first regenerated.
+   *
+   * @param extensionPath - Path to the extension root
+   */
+  public async captureLoadedThemes(extensionPath: string): Promise<void> {
+    const themesDir = path.join(extensionPath, 'themes');
+
+    let files: string[];
+    try {
+      files = await fs.readdir(themesDir);
+    } catch (error) {
+      return;
+    }
+
+    for (const file of files.filter(name => name.endsWith('-color-theme.json'))) {
+      try {
+        const theme = JSON.parse(await fs.readFile(path.join(themesDir, file), 'utf8'));
+        this.loadedThemes.set(theme.name, theme);
+      } catch (error) {
+        console.warn(`Failed to read loaded theme ${file}`, error);
       }
-    };
+    }
+  }
+
+  /**
+   * Bring the live customizations in line with the synthesized themes
+   *
+   * @param syntheses - Themes for the current configuration
+   * @param config - Current configuration
+   */
+  public async update(syntheses: IThemeSynthesis[], config: IConfiguration): Promise<void> {
+    const next: ILiveCustomizations = { colors: {}, textMateRules: {}, semanticRules: {} };
+
+    if (config.liveOverrides) {
+      for (const synthesis of syntheses) {
+        const loaded = this.loadedThemes.get(synthesis.definition.name);
+        if (!loaded) {
+          continue;
+        }
+
+        const scope = `[${synthesis.definition.name}]`;
+        const current = this.serializer.serialize(synthesis.theme);
+        this.addDifferences(next, scope, loaded, current);
+      }
+    }
+
+    await this.write(next);
+  }
+
+  /**
+   * Remove every customization added by live mode
+   */
+  public async clear(): Promise<void> {
+    await this.write({ colors: {}, textMateRules: {}, semanticRules: {} });
+  }
+
+  /**
+   * Check whether live mode has added any customizations that are still in
+   * place
+   *
+   * @returns True if customizations were added and not yet removed
+   */
+  public hasCustomizations(): boolean {
+    const added = this.context.globalState.get<ILiveCustomizations>(LiveCustomizationManager.STATE_KEY);
+    return added !== undefined && [added.colors, added.textMateRules, added.semanticRules]
+      .some(scopes => Object.keys(scopes).length > 0);
+  }
+
+  /**
+   * Collect what differs between a loaded and a synthesized theme
+   *
+   * Entries missing from the synthesized theme cannot be expressed as
+   * customizations and are left for the next reload.
+   *
+   * @param target - Customizations being built, modified in place
+   * @param scope - Theme scope key
+   * @param loaded - Theme file the window was started with
+   * @param current - Synthesized theme contents
+   */
+  private addDifferences(
+    target: ILiveCustomizations,
+    scope: string,
+    loaded: ISerializedTheme,
+    current: ISerializedTheme
+  ): void {
+    const colors = Object.fromEntries(
+      Object.entries(current.colors).filter(([key, value]) => loaded.colors?.[key] !== value)
+    );
+
+    const loadedRules = new Map(
+      (loaded.tokenColors ?? []).map(rule => [JSON.stringify(rule.scope), JSON.stringify(rule.settings)])
+    );
+    const textMateRules = current.tokenColors.filter(rule =>
+      loadedRules.get(JSON.stringify(rule.scope)) !== JSON.stringify(rule.settings)
+    );
+
+    const semanticRules = Object.fromEntries(
+      Object.entries(current.semanticTokenColors).filter(([selector, style]) =>
+        JSON.stringify(loaded.semanticTokenColors?.[selector]) !== JSON.stringify(style)
+      )
+    );
+
+    if (Object.keys(colors).length > 0) {
+      target.colors[scope] = colors;
+    }
+    if (textMateRules.length > 0) {
+      target.textMateRules[scope] = textMateRules;
+    }
+    if (Object.keys(semanticRules).length > 0) {
+      target.semanticRules[scope] = semanticRules;
+    }
+  }
+
+  /**
+   * Replace the previously added customizations with new ones
+   *
+   * @param next - Customizations to add
+   */
+  private async write(next: ILiveCustomizations): Promise<void> {
+    const previous = this.context.globalState.get<ILiveCustomizations>(
+      LiveCustomizationManager.STATE_KEY,
+      { colors: {}, textMateRules: {}, semanticRules: {} }
+    );
+
+    if (JSON.stringify(previous) === JSON.stringify(next)) {
+      return;
+    }
+
+    await this.updateSetting('workbench', 'colorCustomizations', (block, scope) => {
+      const colors: Record<string, unknown> = { ...block };
+      for (const [key, value] of Object.entries(previous.colors[scope] ?? {})) {
+        if (colors[key] === value) {
+          delete colors[key];
+        }
+      }
+      return { ...colors, ...next.colors[scope] };
+    }, previous.colors, next.colors);
+
+    await this.updateSetting('editor', 'tokenColorCustomizations', (block, scope) => {
+      const added = new Set((previous.textMateRules[scope] ?? []).map(rule => JSON.stringify(rule)));
+      const rules = ((block.textMateRules ?? []) as unknown[]).filter(rule => !added.has(JSON.stringify(rule)));
+      const textMateRules = [...rules, ...(next.textMateRules[scope] ?? [])];
+
+      const { textMateRules: _removed, ...rest } = block;
+      return textMateRules.length > 0 ? { ...rest, textMateRules } : rest;
+    }, previous.textMateRules, next.textMateRules);
+
+    await this.updateSetting('editor', 'semanticTokenColorCustomizations', (block, scope) => {
+      const rules: Record<string, unknown> = { ...(block.rules as Record<string, unknown> | undefined) };
+      for (const [selector, style] of Object.entries(previous.semanticRules[scope] ?? {})) {
+        if (JSON.stringify(rules[selector]) === JSON.stringify(style)) {
+          delete rules[selector];
+        }
+      }
+      Object.assign(rules, next.semanticRules[scope]);
+
+      const { rules: _removed, ...rest } = block;
+      return Object.keys(rules).length > 0 ? { ...rest, rules } : rest;
+    }, previous.semanticRules, next.semanticRules);
+
+    await this.context.globalState.update(LiveCustomizationManager.STATE_KEY, next);
+  }
+
+  /**
+   * Rewrite the theme scopes of a customization setting
+   *
+   * Scopes left empty are removed, and the setting is only written when a
+   * scope actually changes.
+   *
+   * @param section - Configuration section
+   * @param key - Setting key within the section
+   * @param rewrite - Produces the new contents of a scope block
+   * @param previous - Previously added customizations, by scope
+   * @param next - Customizations to add, by scope
+   */
+  private async updateSetting(
+    section: string,
+    key: string,
+    rewrite: (block: Record<string, unknown>, scope: string) => Record<string, unknown>,
+    previous: Record<string, unknown>,
+    next: Record<string, unknown>
+  ): Promise<void> {
+    const configuration = vscode.workspace.getConfiguration(section);
+    const current = configuration.inspect<Record<string, unknown>>(key)?.globalValue ?? {};
+    const updated: Record<string, unknown> = { ...current };
+
+    for (const scope of new Set([...Object.keys(previous), ...Object.keys(next)])) {
+      const block = rewrite((current[scope] ?? {}) as Record<string, unknown>, scope);
+
+      if (Object.keys(block).length > 0) {
+        updated[scope] = block;
+      } else {
+        delete updated[scope];
+      }
+    }
+
+    if (JSON.stringify(updated) !== JSON.stringify(current)) {
+      await configuration.update(
+        key,
+        Object.keys(updated).length > 0 ? updated : undefined,
+        vscode.ConfigurationTarget.Global
+      );
+    }
+  }
+}
+
+/**
+ * Extension controller
+ */
+class ModusThemesExtension {
+  private readonly context: vscode.ExtensionContext;
+  private readonly configRepository: IConfigurationRepository;
+  private readonly themeOrchestrator: IThemeOrchestrator;
+  private readonly fileWatcher: IFileWatcher;
+  private readonly contrastAuditor: IContrastAuditor;
+  private readonly analyzer: IThemeAnalyzer;
+  private readonly paletteCatalog: PaletteCatalog;
+  private readonly liveCustomizations: LiveCustomizationManager;
+  private readonly regeneration: RegenerationScheduler;
+  private readonly terminalSchemeBuilder: TerminalSchemeBuilder;
+  private readonly terminalExporters: ITerminalExporter[];
+  private readonly colorSchemeSerializers: IColorSchemeSerializer[];
+  private readonly cssExporter: CssCustomPropertiesExporter;
+  private readonly regenerateEmitter = new vscode.EventEmitter<IRegenerationEvent>();
+  private readonly disposables: vscode.Disposable[] = [];
+
+  /**
+   * Construct new extension controller
+   *
+   * @param context - extension context
+   */
+  constructor(context: vscode.ExtensionContext) {
+    this.context = context;
+
+    const analyzer = new ModusThemeAnalyzer();
+    this.analyzer = analyzer;
+    this.configRepository = new ConfigurationRepository();
+    this.fileWatcher = new FileSystemWatcher();
+    this.contrastAuditor = new WcagContrastAuditor(new StandardColorTransformer());
+
+    const factory = new VSCodeThemeFactory(analyzer);
+    const serializer = new VSCodeThemeSerializer();
+    this.themeOrchestrator = new ThemeOrchestrationService(
+      analyzer,
+      factory,
+      serializer,
+      new VSCodeThemeValidator(),
+      new GlobalStateManifestStore(context.globalState),
+      context.extension.packageJSON.version
+    );
+    this.paletteCatalog = new PaletteCatalog(this.themeOrchestrator, this.configRepository, context.extensionPath);
+    this.liveCustomizations = new LiveCustomizationManager(context, serializer);
+    this.terminalSchemeBuilder = new TerminalSchemeBuilder(analyzer);
+    this.terminalExporters = [
+      new AlacrittyExporter(),
+      new KittyExporter(),
+      new WindowsTerminalExporter(),
+      new FootExporter(),
+      new XresourcesExporter()
+    ];
+    this.colorSchemeSerializers = [new TmThemeSerializer(), new SublimeColorSchemeSerializer()];
+    this.cssExporter = new CssCustomPropertiesExporter(analyzer);
+    this.regeneration = new RegenerationScheduler(
+      this.themeOrchestrator,
+      this.configRepository,
+      context.extensionPath,
+      result => this.handleRegeneration(result)
+    );
   }
 
   /**
-   * Create editor color mapping from element definitions
+   * Activate the extension
    *
-   * @param editorMappings - Editor element mappings
-   * @param palette - Color palette
-   * @returns Record of editor element IDs to resolved colors
+   * Initializes the extension and sets up event handlers.
+   *
+   * @returns Public API for other extensions
    */
-  private createEditorColorMap(
-    editorMappings: IEditorMapping[],
-    palette: IColorPalette
-  ): Record<string, string> {
-    const colorMap: Record<string, string> = {};
+  public async activate(): Promise<IModusThemesApi> {
+    try {
+      console.log('Modus Themes extension activating');
+
+      await this.liveCustomizations.captureLoadedThemes(this.context.extensionPath);
+      this.disposables.push(this.regeneration, this.regenerateEmitter);
+
+      // Commands and editor tooling come first, so that a failing first
+      // generation still leaves "Restore Last Good Themes" and the settings
+      // support available to repair it.
+      //
+      this.registerCommands();
+      this.registerLanguageFeatures();
 
-    for (const mapping of editorMappings) {
       try {
-        if (!mapping.color || mapping.color.trim() === '') {
+        await this.regeneration.schedule({ immediate: true });
+      } catch (error) {
+        if (!this.isCancellation(error)) {
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to update theme files. ${this.describeError(error)}`
+          );
+        }
+      }
+
+      this.disposables.push(
+        this.configRepository.onConfigurationChanged(async () => {
+          this.paletteCatalog.invalidate();
+
+          try {
+            await this.regeneration.schedule({ prompt: true });
+          } catch (error) {
+            if (!this.isCancellation(error)) {
+              vscode.window.showErrorMessage(
+                `Modus Themes: Failed to update theme files. ${this.describeError(error)}`
+              );
+            }
+          }
+        })
+      );
+
+      // Generation is incremental, so any change in the mapping files or the
+      // upstream sources simply triggers it and lets the manifest decide
+      // what to rewrite. The scheduler absorbs the several events a single
+      // save usually produces.
+      //
+      for (const sourceDir of ['config', 'upstream']) {
+        const dirPath = path.join(this.context.extensionPath, sourceDir);
+        if (!fsSync.existsSync(dirPath)) {
           continue;
         }
 
-        const resolvedColor = this.analyzer.resolveColorReference(mapping.color, palette);
-        if (resolvedColor) {
-          colorMap[mapping.element] = resolvedColor;
+        this.disposables.push(
+          this.fileWatcher.watchDir(dirPath, async () => {
+            try {
+              await this.regeneration.schedule();
+            } catch (error) {
+              if (!this.isCancellation(error)) {
+                console.error('Failed to update themes after file changes', error);
+              }
+            }
+          })
+        );
+      }
+
+      console.log('Modus Themes extension successfully activated');
+      return this.createApi();
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to activate Modus Themes extension. ${this.describeError(error)}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Register extension commands
+   */
+  private registerCommands(): void {
+    this.disposables.push(
+      vscode.commands.registerCommand('modus.reloadWindow', () => {
+        vscode.commands.executeCommand('workbench.action.reloadWindow');
+      })
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand('modus.regenerateThemes', async () => {
+        try {
+          const written = await this.regeneration.schedule({ force: true, prompt: true, immediate: true });
+
+          if (written.length === 0) {
+            vscode.window.showInformationMessage('Modus Themes: Theme files are already up to date.');
+          }
+        } catch (error) {
+          if (this.isCancellation(error)) {
+            return;
+          }
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to regenerate theme files. ${this.describeError(error)}`
+          );
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand('modus.restoreLastGoodThemes', async () => {
+        try {
+          const restored = await this.regeneration.runExclusive(() =>
+            this.themeOrchestrator.restoreLastGoodThemes(this.context.extensionPath)
+          );
+
+          if (restored.length > 0) {
+            this.promptForReload(`Restored ${restored.length} theme file(s)`);
+          } else {
+            vscode.window.showInformationMessage('Modus Themes: Theme files already match their last-known-good copies.');
+          }
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to restore theme files. ${this.describeError(error)}`
+          );
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand('modus.inspectColor', async () => {
+        try {
+          await this.inspectColor();
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to inspect color resolution. ${this.describeError(error)}`
+          );
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand('modus.findColorUsages', async (node?: PaletteTreeNode) => {
+        try {
+          await this.findColorUsages(node?.kind === 'entry' ? node.name : undefined);
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to find color usages. ${this.describeError(error)}`
+          );
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand('modus.reportMissingVariants', async () => {
+        try {
+          await this.reportMissingVariants();
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to check variant keys. ${this.describeError(error)}`
+          );
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand('modus.exportTerminalTheme', async () => {
+        try {
+          await this.exportTerminalTheme();
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to export terminal theme. ${this.describeError(error)}`
+          );
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand('modus.exportColorScheme', async () => {
+        try {
+          await this.exportColorScheme();
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to export color scheme. ${this.describeError(error)}`
+          );
+        }
+      })
+    );
+
+    this.disposables.push(
+      vscode.commands.registerCommand('modus.exportCssCustomProperties', async () => {
+        try {
+          await this.exportCssCustomProperties();
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to export CSS custom properties. ${this.describeError(error)}`
+          );
         }
-      } catch (error) {
-        console.error(`Error resolving color for editor element "${mapping.element}":`, error);
-      }
-    }
+      })
+    );
 
-    return colorMap;
+    this.disposables.push(
+      vscode.commands.registerCommand('modus.auditContrast', async () => {
+        try {
+          await this.auditContrast();
+        } catch (error) {
+          vscode.window.showErrorMessage(
+            `Modus Themes: Failed to audit theme contrast. ${this.describeError(error)}`
+          );
+        }
+      })
+    );
   }
 
   /**
-   * Create token mappings organized by token system
+   * Follow up on a completed regeneration
+   *
+   * Runs once per generation however many requests were coalesced into it,
+   * so a burst of changes produces at most one reload prompt.
    *
-   * @param tokenMappings - Token mappings
-   * @param palette - Color palette
-   * @returns Object containing TextMate and semantic tokens
+   * @param result - Outcome of the regeneration
    */
-  private createTokenMappings(
-    tokenMappings: ITokenMapping[],
-    palette: IColorPalette
-  ): { textMateTokens: ITextMateToken[], semanticTokens: ISemanticToken[] } {
-    const textMateTokens: ITextMateToken[] = [];
-    const semanticTokens: ISemanticToken[] = [];
+  private async handleRegeneration(result: IRegenerationResult): Promise<void> {
+    if (result.written.length > 0) {
+      this.paletteCatalog.invalidate();
+    }
 
-    for (const mapping of tokenMappings) {
-      try {
-        if (!mapping.color || mapping.color.trim() === '') {
-          continue;
-        }
+    await this.updateLiveCustomizations(result.config);
 
-        const resolvedColor = this.analyzer.resolveColorReference(mapping.color, palette);
-        if (resolvedColor) {
-          // NOTE: Previously, we used the isSemantic property to determine
-          // whether a token should be applied to semanticTokenColors. This
-          // proved unreliable—VS Code's behavior is inconsistent across
-          // languages. Some languages use only TextMate tokens, others use
-          // semantic tokens, and many use a combination that can vary by
-          // context.
-          //
-          semanticTokens.push(this.createSemanticToken(mapping.scopeOrType, resolvedColor));
-          textMateTokens.push(this.createTextMateToken(mapping.scopeOrType, resolvedColor));
-        }
-      } catch (error) {
-        console.error(`Error resolving color for token "${mapping.scopeOrType}":`, error);
-      }
+    if (result.prompt && result.written.length > 0 && !result.config.liveOverrides) {
+      this.promptForReload('Theme files have been updated');
     }
 
-    return { textMateTokens, semanticTokens };
+    this.regenerateEmitter.fire({ written: result.written });
   }
 
   /**
-   * Create semantic token from scope and color
+   * Build the public API over the palette catalog
+   *
+   * Palettes come from the same cached syntheses as the editor tooling, so
+   * they reflect the current settings rather than the loaded theme files.
+   * Themes are read from their definitions instead, so they are listed even
+   * when a synthesis fails.
    *
-   * @param scope - Semantic token scope
-   * @param color - Resolved color value
-   * @returns Semantic token object
+   * @returns Public API for other extensions
    */
-  private createSemanticToken(scope: string, color: string): ISemanticToken {
+  private createApi(): IModusThemesApi {
+    const findSynthesis = async (themeId: string) =>
+      (await this.paletteCatalog.getSyntheses()).find(synthesis => synthesis.definition.id === themeId);
+
     return {
-      type: scope,
-      style: color
+      getThemes: async () => {
+        const definitionsPath = path.join(this.context.extensionPath, 'config', 'modus-themes.json');
+        return JSON.parse(await fs.readFile(definitionsPath, 'utf8')) as IThemeDefinition[];
+      },
+      getPalette: async (themeId) => {
+        const palette = (await findSynthesis(themeId))?.palette;
+        return palette && structuredClone(palette);
+      },
+      resolveColor: async (themeId, reference) => {
+        const synthesis = await findSynthesis(themeId);
+        return synthesis && this.analyzer.resolveColorReference(reference, synthesis.palette);
+      },
+      onDidRegenerate: this.regenerateEmitter.event
     };
   }
 
   /**
-   * Create TextMate token from scope and color
+   * Check whether an error reports a regeneration dropped at shutdown
    *
-   * @param scope - TextMate token scope
-   * @param color - Resolved color value
-   * @returns TextMate token object
+   * @param error - Error to check
+   * @returns True if the error is a cancellation
    */
-  private createTextMateToken(scope: string, color: string): ITextMateToken {
-    return {
-      scope: [scope],
-      style: {
-        foreground: color
-      }
-    };
+  private isCancellation(error: unknown): boolean {
+    return error instanceof GenerationCancelledError;
   }
-}
 
-/**
- * Theme serialization implementation
- */
-class VSCodeThemeSerializer implements IThemeSerializer {
   /**
-   * Serialize a theme to VS Code's format specification
+   * Mirror the regenerated themes into the customization settings, or
+   * remove the mirrored entries when live mode is off
+   *
+   * Failures are logged rather than reported: the theme files are already
+   * written and take effect on the next reload regardless. The themes are
+   * only synthesized in live mode, as removing the mirrored entries does not
+   * need them.
    *
-   * @param theme - Internal theme representation
-   * @returns VS Code compatible theme object
+   * @param config - Configuration the themes were generated with
    */
-  public serialize(theme: IThemeVSC): any {
-    return {
-      "$schema": "vscode://schemas/color-theme",
-
-      name: theme.name,
-      type: theme.type,
-      colors: theme.colors,
-
-      tokenColors: theme.tokens.textMate.map(token => ({
-        scope: token.scope,
-        settings: typeof token.style === 'string'
-          ? { foreground: token.style }
-          : token.style
-      })),
+  private async updateLiveCustomizations(config: IConfiguration): Promise<void> {
+    if (!config.liveOverrides && !this.liveCustomizations.hasCustomizations()) {
+      return;
+    }
 
-      semanticTokenColors: Object.fromEntries(
-        theme.tokens.semantic.map(token => [
-          token.type,
-          token.style
-        ])
-      )
-    };
+    try {
+      const syntheses = config.liveOverrides ? await this.paletteCatalog.getSyntheses() : [];
+      await this.liveCustomizations.update(syntheses, config);
+    } catch (error) {
+      console.error('Failed to update live customizations', error);
+    }
   }
-}
 
-/**
- * Hierarchical configuration processing
- */
-abstract class HierarchicalConfigurationProcessor<T> {
   /**
-   * Process a hierarchical configuration object recursively
-   *
-   * @param path - Current path in the configuration hierarchy
-   * @param node - Current node being processed
-   * @returns Array of processed configuration elements
+   * Register editor tooling for settings and configuration documents, and
+   * the palette explorer
    */
-  public processConfiguration(path: string, node: unknown): T[] {
-    const elements: T[] = [];
-    this.traverseConfigurationNode(path, node, elements);
-    return elements;
+  private registerLanguageFeatures(): void {
+    const overrideFeatures = new ColorOverridesLanguageFeatures(this.paletteCatalog, this.analyzer);
+    overrideFeatures.register();
+
+    const colorProvider = new PaletteColorProvider(this.paletteCatalog, this.analyzer, this.configRepository);
+
+    const paletteTree = new PaletteTreeProvider(
+      this.paletteCatalog,
+      this.analyzer,
+      this.configRepository,
+      this.context.globalStorageUri.fsPath
+    );
+    paletteTree.register();
+
+    this.disposables.push(this.paletteCatalog, overrideFeatures, colorProvider, colorProvider.register(), paletteTree);
   }
 
   /**
-   * Traverse node in the configuration hierarchy
+   * Audit every synthesized theme and present the failing pairs
    *
-   * Recursively processes the configuration tree, creating path-based
-   * identifiers for terminal values.
-   *
-   * @param path - Current path in the configuration hierarchy
-   * @param node - Current node being processed
-   * @param accumulator - Result collection for processed elements
+   * The report is opened as an untitled Markdown document so it can be
+   * searched, previewed or saved alongside the configuration being tuned.
    */
-  protected traverseConfigurationNode(
-    path: string,
-    node: unknown,
-    accumulator: T[]
-  ): void {
-    if (typeof node === 'string') {
-      const element = this.createElementFromLeaf(path, node);
-      accumulator.push(element);
-    } else if (typeof node === 'object' && node !== null) {
-      this.traverseObjectProperties(path, node as Record<string, unknown>, accumulator);
+  private async auditContrast(): Promise<void> {
+    const config = this.configRepository.retrieveConfiguration();
+    const syntheses = await this.themeOrchestrator.synthesizeAllThemes(this.context.extensionPath, config);
+    const minimumRatio = this.contrastAuditor.minimumRatio;
+
+    const lines: string[] = [
+      '# Modus Themes: Contrast Audit',
+      '',
+      `Pairs below the ${minimumRatio}:1 contrast requirement.`,
+      ''
+    ];
+    let failureCount = 0;
+
+    for (const synthesis of syntheses) {
+      const findings = this.contrastAuditor.audit(synthesis);
+      failureCount += findings.length;
+
+      lines.push(`## ${synthesis.definition.name}`, '');
+
+      if (findings.length === 0) {
+        lines.push('No failing pairs.', '');
+        continue;
+      }
+
+      lines.push(
+        '| Foreground | Background | Ratio | Palette |',
+        '| --- | --- | --- | --- |'
+      );
+      for (const finding of findings.sort((a, b) => a.ratio - b.ratio)) {
+        const foregroundReference = finding.foregroundReference || '?';
+        const backgroundReference = finding.backgroundReference || '?';
+        lines.push(
+          `| \`${finding.foreground}\` | \`${finding.background}\` | ${finding.ratio.toFixed(2)}:1 | \`${foregroundReference}\` on \`${backgroundReference}\` |`
+        );
+      }
+      lines.push('');
     }
-  }
 
-  /**
-   * Traverse properties of an object node
-   *
-   * @param path - Current path in the configuration hierarchy
-   * @param obj - Object whose properties should be traversed
-   * @param accumulator - Result collection for processed elements
-   */
-  protected traverseObjectProperties(
-    path: string,
-    obj: Record<string, unknown>,
-    accumulator: T[]
-  ): void {
-    for (const [key, value] of Object.entries(obj)) {
-      const qualifiedPath = this.constructQualifiedPath(path, key);
-      this.traverseConfigurationNode(qualifiedPath, value, accumulator);
+    if (failureCount === 0) {
+      vscode.window.showInformationMessage(
+        `Modus Themes: All audited pairs meet the ${minimumRatio}:1 contrast requirement.`
+      );
+      return;
     }
-  }
 
-  /**
-   * Construct qualified path by joining path segments
-   *
-   * @param currentPath - Current path in the hierarchy
-   * @param segment - New path segment to append
-   * @returns Qualified path with proper delimiter
-   */
-  protected constructQualifiedPath(currentPath: string, segment: string): string {
-    return currentPath ? `${currentPath}.${segment}` : segment;
+    const document = await vscode.workspace.openTextDocument({
+      content: lines.join('\n'),
+      language: 'markdown'
+    });
+    await vscode.window.showTextDocument(document);
   }
 
   /**
-   * Create domain element from leaf node value
+   * List the variant keys each theme lacks in modus-palette.json
    *
-   * @param path - Path to the leaf node
-   * @param value - Value of the leaf node
-   * @returns Domain-specific element
+   * Such names are no longer borrowed from other themes, so they either
+   * fall back to a shared definition or fail to resolve.
    */
-  protected abstract createElementFromLeaf(path: string, value: string): T;
-}
+  private async reportMissingVariants(): Promise<void> {
+    const config = this.configRepository.retrieveConfiguration();
+    const gaps = await this.themeOrchestrator.findMissingVariantKeys(this.context.extensionPath, config);
 
-/**
- * Editor mapping processor implementation
- *
- * Specialized hierarchical processor for editor color mappings.
- */
-class EditorMappingProcessor extends HierarchicalConfigurationProcessor<IEditorMapping> {
-  /**
-   * Create editor mapping from leaf node
-   *
-   * @param element - Editor element identifier
-   * @param color - Color reference value
-   * @returns Editor mapping object
-   */
-  protected createElementFromLeaf(element: string, color: string): IEditorMapping {
-    return { element, color };
+    if (gaps.length === 0) {
+      vscode.window.showInformationMessage(
+        'Modus Themes: Every variant key in modus-palette.json is defined for every theme.'
+      );
+      return;
+    }
+
+    const lines: string[] = [
+      '# Modus Themes: Missing Variant Keys',
+      '',
+      'Keys defined in some variant blocks of `modus-palette.json` but not in others.',
+      ''
+    ];
+
+    for (const themeId of new Set(gaps.map(gap => gap.themeId))) {
+      lines.push(`## ${themeId}`, '', '| Key | Defined by | Falls back to |', '| --- | --- | --- |');
+      for (const gap of gaps.filter(candidate => candidate.themeId === themeId)) {
+        lines.push(`| \`${gap.key}\` | ${gap.definedBy.join(', ')} | ${gap.fallback ?? '_unresolved_'} |`);
+      }
+      lines.push('');
+    }
+
+    const document = await vscode.workspace.openTextDocument({
+      content: lines.join('\n'),
+      language: 'markdown'
+    });
+    await vscode.window.showTextDocument(document);
   }
-}
 
-/**
- * Token mapping processor implementation
- *
- * Specialized hierarchical processor for token color mappings.
- */
-class TokenMappingProcessor extends HierarchicalConfigurationProcessor<ITokenMapping> {
   /**
-   * Create token mapping from leaf node
-   *
-   * @param scopeOrType - Token scope or type identifier
-   * @param color - Color reference value
-   * @returns Token mapping object with semantic classification
+   * Export a theme's palette as a terminal emulator color scheme
    */
-  protected createElementFromLeaf(scopeOrType: string, color: string): ITokenMapping {
-    return {
-      scopeOrType,
-      color,
-    };
-  }
-}
+  private async exportTerminalTheme(): Promise<void> {
+    const synthesis = await this.pickSynthesis('Modus Themes: Export Terminal Theme');
+    if (!synthesis) {
+      return;
+    }
 
-/**
- * Theme orchestration service implementation
- */
-class ThemeOrchestrationService implements IThemeOrchestrator {
-  private readonly analyzer: IThemeAnalyzer;
-  private readonly factory: IThemeFactory;
-  private readonly serializer: IThemeSerializer;
-  private readonly configurationFiles: ReadonlyArray<string>;
-  private readonly editorProcessor: EditorMappingProcessor;
-  private readonly tokenProcessor: TokenMappingProcessor;
-  private lastGenerationTimestamp = 0;
+    const format = await vscode.window.showQuickPick(
+      this.terminalExporters.map(exporter => ({
+        label: exporter.label,
+        description: `.${exporter.fileExtension}`,
+        exporter
+      })),
+      { title: 'Modus Themes: Export Terminal Theme', placeHolder: 'Terminal emulator' }
+    );
+    if (!format) {
+      return;
+    }
 
-  /**
-   * Construct a new theme orchestration service
-   */
-  constructor(
-    analyzer: IThemeAnalyzer,
-    factory: IThemeFactory,
-    serializer: IThemeSerializer
-  ) {
-    this.analyzer = analyzer;
-    this.factory = factory;
-    this.serializer = serializer;
-    this.configurationFiles = Object.freeze([
-      'modus-palette.json',
-      'modus-editor.json',
-      'modus-editor-experimental.json',
-      'modus-tokens.json',
-      'modus-themes.json'
-    ]);
-    this.editorProcessor = new EditorMappingProcessor();
-    this.tokenProcessor = new TokenMappingProcessor();
+    const { exporter } = format;
+    await this.saveExport(
+      `${synthesis.definition.id}.${exporter.fileExtension}`,
+      exporter.export(this.terminalSchemeBuilder.build(synthesis)),
+      { [exporter.label]: [exporter.fileExtension] }
+    );
   }
 
   /**
-   * Detect modifications to source files
-   *
-   * @param extensionPath - Path to the extension root
-   * @returns Promise resolving to true if changes detected
+   * Export a theme's token colors as a TextMate or Sublime Text color scheme
    */
-  public async detectSourceModifications(extensionPath: string): Promise<boolean> {
-    try {
-      const configDir = path.join(extensionPath, 'config');
-      const filePaths = this.getConfigurationFilePaths(configDir);
-      const fileStats = await this.collectFileStatistics(filePaths);
-      const latestModification = this.determineLatestModificationTime(fileStats);
+  private async exportColorScheme(): Promise<void> {
+    const synthesis = await this.pickSynthesis('Modus Themes: Export Color Scheme');
+    if (!synthesis) {
+      return;
+    }
 
-      return latestModification > this.lastGenerationTimestamp;
-    } catch (error) {
-      console.error('Error detecting file modifications:', error);
-      return false;
+    const format = await vscode.window.showQuickPick(
+      this.colorSchemeSerializers.map(serializer => ({
+        label: serializer.label,
+        description: `.${serializer.fileExtension}`,
+        serializer
+      })),
+      { title: 'Modus Themes: Export Color Scheme', placeHolder: 'Color scheme format' }
+    );
+    if (!format) {
+      return;
     }
+
+    const { serializer } = format;
+    await this.saveExport(
+      `${synthesis.definition.id}.${serializer.fileExtension}`,
+      serializer.serialize(synthesis.theme),
+      { [serializer.label]: [serializer.fileExtension] }
+    );
   }
 
   /**
-   * Get paths to all relevant configuration files
+   * Export every theme's palette and workbench colors as CSS custom properties
    *
-   * @param configDir - Configuration directory
-   * @returns Array of file paths to monitor
+   * Light and dark themes are offered as prefers-color-scheme pairs in the
+   * order of modus-themes.json, so each light theme is paired with the dark
+   * theme of the same family.
    */
-  private getConfigurationFilePaths(configDir: string): string[] {
-    if (!configDir) {
-      throw new Error('Configuration directory path is undefined');
+  private async exportCssCustomProperties(): Promise<void> {
+    const syntheses = await this.paletteCatalog.getSyntheses();
+    const light = syntheses.filter(synthesis => synthesis.definition.type === ThemeType.LIGHT);
+    const dark = syntheses.filter(synthesis => synthesis.definition.type === ThemeType.DARK);
+
+    const pairings = [
+      ...light.slice(0, dark.length).map((synthesis, index) => ({
+        label: `${synthesis.definition.name} / ${dark[index].definition.name}`,
+        description: 'Light / dark',
+        pairing: { light: synthesis.definition.id, dark: dark[index].definition.id }
+      })),
+      { label: 'No pairing', description: 'Only data-modus-theme selectors', pairing: undefined }
+    ];
+
+    const picked = await vscode.window.showQuickPick(pairings, {
+      title: 'Modus Themes: Export CSS Custom Properties',
+      placeHolder: 'Themes following prefers-color-scheme'
+    });
+    if (!picked) {
+      return;
     }
 
-    return this.configurationFiles.map(filename =>
-      path.join(configDir, filename)
+    await this.saveExport(
+      'modus-themes.css',
+      this.cssExporter.export(syntheses, picked.pairing),
+      { CSS: ['css'] }
     );
   }
 
   /**
-   * Collect file statistics for the specified files
+   * Ask for a theme, offering the active one first
    *
-   * @param filePaths - Paths to analyze
-   * @returns Array of file statistics objects or null for missing files
+   * @param title - Quick pick title
+   * @returns Picked synthesis, or undefined if the pick was dismissed
    */
-  private async collectFileStatistics(filePaths: string[]): Promise<(Stats | null)[]> {
-    return Promise.all(
-      filePaths.map(filePath =>
-        fs.stat(filePath).catch(error => {
-          console.warn(`Failed to stat file ${filePath}:`, error);
-          return null;
-        })
-      )
+  private async pickSynthesis(title: string): Promise<IThemeSynthesis | undefined> {
+    const syntheses = await this.paletteCatalog.getSyntheses();
+    const active = await this.paletteCatalog.getActiveSynthesis();
+    const ordered = active ? [active, ...syntheses.filter(synthesis => synthesis !== active)] : syntheses;
+
+    const picked = await vscode.window.showQuickPick(
+      ordered.map(synthesis => ({
+        label: synthesis.definition.name,
+        description: synthesis === active ? 'Active theme' : undefined,
+        synthesis
+      })),
+      { title, placeHolder: 'Theme to export' }
     );
+
+    return picked?.synthesis;
   }
 
   /**
-   * Determine the latest modification time among the specified files
+   * Ask where to save an exported file and write it there
    *
-   * @param fileStats - Array of file statistics objects
-   * @returns Latest modification time in milliseconds
+   * @param fileName - Suggested file name
+   * @param content - File contents
+   * @param filters - Save dialog file type filters
    */
-  private determineLatestModificationTime(fileStats: (Stats | null)[]): number {
-    let latestModification = 0;
-    for (const stat of fileStats) {
-      if (stat && stat.mtime) {
-        const modificationTime = stat.mtime.getTime();
-        if (modificationTime > latestModification) {
-          latestModification = modificationTime;
-        }
-      }
+  private async saveExport(fileName: string, content: string, filters: Record<string, string[]>): Promise<void> {
+    const folder = vscode.workspace.workspaceFolders?.[0]?.uri ?? vscode.Uri.file(os.homedir());
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(folder, fileName),
+      filters
+    });
+    if (!target) {
+      return;
+    }
+
+    await fs.writeFile(target.fsPath, content);
+
+    const selection = await vscode.window.showInformationMessage(
+      `Modus Themes: Exported ${path.basename(target.fsPath)}.`,
+      'Open File'
+    );
+    if (selection === 'Open File') {
+      await vscode.window.showTextDocument(target);
     }
-    return latestModification;
   }
 
   /**
-   * Generate all themes from source definitions
+   * Show how an editor element or token mapping resolves in every theme
    *
-   * @param extensionPath - Path to the extension root
-   * @param config - User configuration
-   * @returns Promise that resolves when generation completes
+   * Experimental elements are listed even when modus.experimental is off;
+   * they are then traced against a synthesis with the experimental mappings
+   * enabled and reported as not written.
    */
-  public async generateAllThemes(extensionPath: string, config: IConfiguration): Promise<void> {
-    try {
-      const themesDir = path.join(extensionPath, 'themes');
-      await fs.mkdir(themesDir, { recursive: true });
-      const configDir = path.join(extensionPath, 'config');
+  private async inspectColor(): Promise<void> {
+    const config = this.configRepository.retrieveConfiguration();
+    const syntheses = await this.themeOrchestrator.synthesizeAllThemes(this.context.extensionPath, config);
+    const experimentalSyntheses = config.experimental
+      ? syntheses
+      : await this.themeOrchestrator.synthesizeAllThemes(this.context.extensionPath, { ...config, experimental: true });
+
+    if (syntheses.length === 0) {
+      return;
+    }
 
-      const definitionsPath = path.join(configDir, 'modus-themes.json');
-      const definitionsContent = await fs.readFile(definitionsPath, 'utf8');
-      const themeDefinitions = JSON.parse(definitionsContent) as IThemeDefinition[];
+    const elements = new Set(syntheses[0].editorMappings.map(mapping => mapping.element));
+    const targets: IInspectionTarget[] = [
+      ...experimentalSyntheses[0].editorMappings.map(mapping => ({
+        label: mapping.element,
+        description: elements.has(mapping.element) ? 'Editor color' : 'Editor color (experimental, disabled)',
+        element: mapping.element,
+        experimentalOnly: !elements.has(mapping.element)
+      })),
+      ...syntheses[0].tokenMappings.map(mapping => ({
+        label: mapping.scopeOrType,
+        description: mapping.system === TokenSystem.SEMANTIC ? 'Semantic token' : 'TextMate scope',
+        tokenMapping: mapping
+      }))
+    ];
+
+    const unique = [...new Map(targets.map(target => [`${target.description}\0${target.label}`, target])).values()];
+    const target = await vscode.window.showQuickPick(unique, {
+      title: 'Modus Themes: Inspect Color',
+      placeHolder: 'Editor color id or token selector',
+      matchOnDescription: true
+    });
+    if (!target) {
+      return;
+    }
 
-      const editorPath = path.join(configDir, 'modus-editor.json');
-      const editorContent = await fs.readFile(editorPath, 'utf8');
-      const editorData = JSON.parse(this.stripJsonComments(editorContent));
-      const editorMappings = this.editorProcessor.processConfiguration('', editorData);
+    const lines: string[] = [`# Modus Themes: ${target.label}`, '', `${target.description}.`, ''];
+    const sources = target.experimentalOnly ? experimentalSyntheses : syntheses;
 
-      let experimentalEditorMappings: IEditorMapping[] = [];
-      if (config.experimental) {
-        try {
-          const experimentalEditorPath = path.join(configDir, 'modus-editor-experimental.json');
-          const experimentalContent = await fs.readFile(experimentalEditorPath, 'utf8');
-          const experimentalData = JSON.parse(this.stripJsonComments(experimentalContent));
-          experimentalEditorMappings = this.editorProcessor.processConfiguration('', experimentalData);
-        } catch (error) {
-          console.warn('Failed to load experimental editor mappings:', error);
+    for (const synthesis of sources) {
+      lines.push(`## ${synthesis.definition.name}`, '');
+
+      if (target.element) {
+        const mapping = [...synthesis.editorMappings].reverse().find(candidate => candidate.element === target.element);
+        if (mapping) {
+          lines.push(...this.describeResolution('Color', mapping.color, synthesis.palette));
         }
-      }
 
-      const combinedEditorMappings = [...editorMappings];
-      if (config.experimental && experimentalEditorMappings.length > 0) {
-        combinedEditorMappings.push(...experimentalEditorMappings);
+        const written = target.experimentalOnly
+          ? 'not written, modus.experimental is disabled'
+          : synthesis.theme.colors[target.element] ? `\`${synthesis.theme.colors[target.element]}\`` : 'not written';
+        lines.push(`Theme file: ${written}`, '');
+        continue;
       }
 
-      const tokensPath = path.join(configDir, 'modus-tokens.json');
-      const tokensContent = await fs.readFile(tokensPath, 'utf8');
-      const tokensData = JSON.parse(this.stripJsonComments(tokensContent));
-      const tokenMappings = this.tokenProcessor.processConfiguration('', tokensData);
-
-      const extensionsPath = path.join(configDir, 'modus-palette.json');
-      const extensions = await this.analyzer.loadExtensions(extensionsPath);
-
-      const results = await Promise.allSettled(
-        themeDefinitions.map(async (theme) => {
-          try {
-            const sourcePath = path.join(extensionPath, theme.source);
-            const outputPath = path.join(themesDir, `${theme.id}-color-theme.json`);
-
-            const basePalette = await this.analyzer.analyzeSource(sourcePath);
-
-            const palette = this.analyzer.mergeColorSources(
-              basePalette,
-              extensions,
-              config.colorOverrides,
-              theme.id
-            );
-
-            const vscodeTheme = this.factory.synthesizeTheme(
-              theme,
-              palette,
-              combinedEditorMappings,
-              tokenMappings
-            );
-
-            const exportedTheme = this.serializer.serialize(vscodeTheme);
-
-            await fs.writeFile(outputPath, JSON.stringify(exportedTheme, null, 2));
-
-            return theme.id;
-          } catch (error) {
-            console.error(`Failed to generate theme ${theme.id}`, error);
-            throw error;
-          }
-        })
+      const mapping = synthesis.tokenMappings.find(candidate =>
+        candidate.system === target.tokenMapping?.system && candidate.scopeOrType === target.tokenMapping.scopeOrType
       );
+      if (!mapping) {
+        continue;
+      }
 
-      this.lastGenerationTimestamp = Date.now();
-
-      const failedCount = results.filter(r => r.status === 'rejected').length;
-      if (failedCount > 0) {
-        throw new ThemeProcessingError(
-          `Failed to generate ${failedCount} theme(s)`,
-          'GENERATION_ERROR'
-        );
+      lines.push(...this.describeResolution('Foreground', mapping.color, synthesis.palette));
+      if (mapping.background) {
+        lines.push(...this.describeResolution('Background', mapping.background, synthesis.palette));
+      }
+      if (mapping.fontStyle) {
+        lines.push(`Font style: ${mapping.fontStyle}`, '');
       }
-    } catch (error) {
-      throw new ThemeProcessingError(
-        `Theme generation process failed: ${error instanceof Error ? error.message : String(error)}`,
-        'ORCHESTRATION_ERROR',
-        error instanceof Error ? error : undefined
-      );
     }
+
+    const document = await vscode.workspace.openTextDocument({
+      content: lines.join('\n'),
+      language: 'markdown'
+    });
+    await vscode.window.showTextDocument(document);
   }
 
   /**
-   * Strip C-style comments from JSON string
+   * List the mappings that resolve through a palette color and open the
+   * chosen one at its line
    *
+   * @param name - Palette color name, prompted for when undefined
    */
-  private stripJsonComments(jsonString: string): string {
-    // Remove single line comments (// comment)
-    let result = jsonString.replace(/\/\/.*$/gm, '');
+  private async findColorUsages(name?: string): Promise<void> {
+    const config = this.configRepository.retrieveConfiguration();
 
-    // Remove multi-line comments (/* comment */)
-    result = result.replace(/\/\*[\s\S]*?\*\//g, '');
-
-    return result;
-  }
-}
+    if (!name) {
+      const synthesis = await this.paletteCatalog.getActiveSynthesis();
+      if (!synthesis) {
+        return;
+      }
 
-/**
- * Extension controller
- */
-class ModusThemesExtension {
-  private readonly context: vscode.ExtensionContext;
-  private readonly configRepository: IConfigurationRepository;
-  private readonly themeOrchestrator: IThemeOrchestrator;
-  private readonly fileWatcher: IFileWatcher;
-  private readonly disposables: vscode.Disposable[] = [];
+      const names = [...new Set([...Object.keys(synthesis.palette.hex), ...Object.keys(synthesis.palette.semantic)])];
+      name = await vscode.window.showQuickPick(names, {
+        title: 'Modus Themes: Find Color Usages',
+        placeHolder: 'Palette color name'
+      });
+      if (!name) {
+        return;
+      }
+    }
 
-  /**
-   * Construct new extension controller
-   *
-   * @param context - extension context
-   */
-  constructor(context: vscode.ExtensionContext) {
-    this.context = context;
+    const usages = await this.themeOrchestrator.findColorUsages(this.context.extensionPath, config, name);
+    if (usages.length === 0) {
+      vscode.window.showInformationMessage(`Modus Themes: No mapping resolves through "${name}".`);
+      return;
+    }
 
-    const analyzer = new ModusThemeAnalyzer();
-    this.configRepository = new ConfigurationRepository();
-    this.fileWatcher = new FileSystemWatcher();
+    const themeCount = (await this.paletteCatalog.getSyntheses()).length;
+    const usage = await vscode.window.showQuickPick(
+      usages.map(candidate => ({
+        label: candidate.target,
+        description: `${candidate.property === 'color' ? '' : `${candidate.property}: `}${candidate.reference}`,
+        detail: `${path.basename(candidate.file)}:${candidate.location.line}` +
+          (candidate.themes.length < themeCount ? ` (${candidate.themes.join(', ')})` : ''),
+        usage: candidate
+      })),
+      {
+        title: `Modus Themes: ${usages.length} usages of ${name}`,
+        placeHolder: 'Mapping to open',
+        matchOnDescription: true
+      }
+    );
+    if (!usage) {
+      return;
+    }
 
-    const factory = new VSCodeThemeFactory(analyzer);
-    const serializer = new VSCodeThemeSerializer();
-    this.themeOrchestrator = new ThemeOrchestrationService(analyzer, factory, serializer);
+    const { file, location } = usage.usage;
+    const position = new vscode.Position(location.line - 1, location.column - 1);
+    const document = await vscode.workspace.openTextDocument(vscode.Uri.file(file));
+    await vscode.window.showTextDocument(document, { selection: new vscode.Range(position, position) });
   }
 
   /**
-   * Activate the extension
+   * Describe the resolution of a color reference as a nested Markdown list
    *
-   * Initializes the extension and sets up event handlers.
+   * Each step names how the reference was resolved and, for palette
+   * entries, the merge layer that set it, so overrides stand out.
+   *
+   * @param label - Role of the color, e.g. "Foreground"
+   * @param reference - Mapping value
+   * @param palette - Merged palette of the theme
+   * @returns Markdown lines
    */
-  public async activate(): Promise<void> {
-    try {
-      console.log('Modus Themes extension activating');
-
-      const config = this.configRepository.retrieveConfiguration();
-      await this.themeOrchestrator.generateAllThemes(this.context.extensionPath, config);
-
-      this.disposables.push(
-        this.configRepository.onConfigurationChanged(async (newConfig) => {
-          try {
-            await this.themeOrchestrator.generateAllThemes(this.context.extensionPath, newConfig);
-
-            this.promptForReload('Theme files have been updated');
-          } catch (error) {
-            vscode.window.showErrorMessage(
-              'Modus Themes: Failed to update theme files.'
-            );
-          }
-        })
-      );
-
-      const configDir = path.join(this.context.extensionPath, 'config');
-      this.disposables.push(
-        this.fileWatcher.watchDir(configDir, async () => {
-          try {
-            const hasChanges = await this.themeOrchestrator.detectSourceModifications(this.context.extensionPath);
-
-            if (hasChanges) {
-              const config = this.configRepository.retrieveConfiguration();
-              await this.themeOrchestrator.generateAllThemes(this.context.extensionPath, config);
-              // this.promptForReload('Theme files have been updated due to configuration changes');
-            }
-          } catch (error) {
-            console.error('Failed to update themes after file changes', error);
-          }
-        })
-      );
+  private describeResolution(label: string, reference: string, palette: IColorPalette): string[] {
+    const kinds: Record<ResolutionStepKind, string> = {
+      [ResolutionStepKind.LITERAL]: 'hex literal',
+      [ResolutionStepKind.HEX]: 'palette color',
+      [ResolutionStepKind.SEMANTIC]: 'semantic alias',
+      [ResolutionStepKind.VARIANT]: 'variant entry',
+      [ResolutionStepKind.OPACITY]: 'opacity',
+      [ResolutionStepKind.EXPRESSION]: 'color function',
+      [ResolutionStepKind.UNSPECIFIED]: 'unspecified'
+    };
 
-      this.registerCommands();
+    try {
+      const trace = this.analyzer.traceColorReference(reference, palette);
+      const lines = [`${label}: \`${reference}\` → ${trace.result ? `\`${trace.result}\`` : 'unspecified'}`, ''];
+
+      for (const step of trace.steps) {
+        const origin = palette.origins?.[step.reference];
+        const layer = origin && (step.kind === ResolutionStepKind.HEX || step.kind === ResolutionStepKind.SEMANTIC)
+          ? ` (${origin})`
+          : '';
+        const value = step.value ? ` → \`${step.value}\`` : '';
+        lines.push(`${'  '.repeat(step.depth)}- \`${step.reference}\`: ${kinds[step.kind]}${layer}${value}`);
+      }
 
-      console.log('Modus Themes extension successfully activated');
+      return [...lines, ''];
     } catch (error) {
-      vscode.window.showErrorMessage(
-        'Failed to activate Modus Themes extension.'
-      );
-      throw error;
+      return [`${label}: \`${reference}\` fails to resolve. ${this.describeError(error)}`, ''];
     }
   }
 
   /**
-   * Register extension commands
+   * Describe an error for display in a notification
+   *
+   * @param error - Caught error
+   * @returns Error message, or an empty string for non-errors
    */
-  private registerCommands(): void {
-    this.disposables.push(
-      vscode.commands.registerCommand('modus.reloadWindow', () => {
-        vscode.commands.executeCommand('workbench.action.reloadWindow');
-      })
-    );
-
-    this.disposables.push(
-      vscode.commands.registerCommand('modus.regenerateThemes', async () => {
-        try {
-          const config = this.configRepository.retrieveConfiguration();
-          await this.themeOrchestrator.generateAllThemes(this.context.extensionPath, config);
-
-          this.promptForReload('Theme files have been regenerated');
-        } catch (error) {
-          vscode.window.showErrorMessage(
-            'Modus Themes: Failed to regenerate theme files.'
-          );
-        }
-      })
-    );
+  private describeError(error: unknown): string {
+    return error instanceof Error ? error.message : '';
   }
 
   /**
@@ -1441,28 +2443,46 @@ class ModusThemesExtension {
   /**
    * Deactivate the extension
    *
-   * Cleans up resources when the extension is deactivated.
+   * Cleans up resources when the extension is deactivated, including the
+   * customizations added by live mode: a disabled or uninstalled extension
+   * never activates again to remove them. On a window reload the first
+   * regeneration of the next activation adds back whatever still differs
+   * from the loaded theme files.
    */
-  public deactivate(): void {
+  public async deactivate(): Promise<void> {
     for (const disposable of this.disposables) {
       disposable.dispose();
     }
+
+    try {
+      await this.liveCustomizations.clear();
+    } catch (error) {
+      console.error('Failed to remove live customizations', error);
+    }
   }
 }
 
+/** Extension controller of the running activation */
+let activeExtension: ModusThemesExtension | undefined;
+
 /**
  * Extension activation function
  *
  * @param context - VS Code extension context
+ * @returns Public API for other extensions
  */
-export async function activate(context: vscode.ExtensionContext): Promise<void> {
+export async function activate(context: vscode.ExtensionContext): Promise<IModusThemesApi> {
   const extension = new ModusThemesExtension(context);
-  await extension.activate();
+  activeExtension = extension;
+  return extension.activate();
 }
 
 /**
  * Extension deactivation function
+ *
+ * @returns Promise resolving once the extension has cleaned up
  */
-export function deactivate(): void {
-  // Extension cleanup handled by ModusThemesExtension instance
+export async function deactivate(): Promise<void> {
+  await activeExtension?.deactivate();
+  activeExtension = undefined;
 }
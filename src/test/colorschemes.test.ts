@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import { IThemeSynthesis, SublimeColorSchemeSerializer, TmThemeSerializer } from '../core';
+import { EXTENSION_FILES, createExtensionRoot, synthesize } from './helpers';
+
+suite('TextMate color schemes', () => {
+  let root: string;
+  let synthesis: IThemeSynthesis;
+
+  suiteSetup(async () => {
+    const [operandi, ...themes] = EXTENSION_FILES['config/modus-themes.json'] as object[];
+
+    root = await createExtensionRoot({
+      'config/modus-themes.json': [{ ...operandi, name: 'Modus <Operandi> & Co' }, ...themes],
+      'config/modus-editor.json': {
+        'editor.background': 'bg-main',
+        'editor.foreground': 'fg-main',
+        'editor.selectionBackground': 'fg-main@0.25'
+      },
+      'config/modus-tokens.json': {
+        semantic: { variable: 'fg-main' },
+        textMate: {
+          comment: { color: 'fg-dim', fontStyle: 'italic strikethrough' },
+          'string - meta.embedded': 'fg-main',
+          'markup.heading': { background: 'bg-main', fontStyle: 'bold' }
+        }
+      }
+    });
+    synthesis = (await synthesize(root))['modus-operandi'];
+  });
+
+  suiteTeardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('writes a tmTheme property list with global settings first', () => {
+    const plist = new TmThemeSerializer().serialize(synthesis.theme);
+
+    assert.ok(plist.startsWith('<?xml version="1.0" encoding="UTF-8"?>\n'));
+    assert.match(plist, /<key>name<\/key>\n {2}<string>Modus &lt;Operandi&gt; &amp; Co<\/string>/);
+    assert.match(plist, new RegExp([
+      '<array>',
+      '<dict>',
+      '<key>settings</key>',
+      '<dict>',
+      '<key>background</key>', '<string>#ffffff</string>',
+      '<key>foreground</key>', '<string>#000000</string>',
+      '<key>caret</key>', '<string>#000000</string>',
+      '<key>selection</key>', '<string>#00000040</string>',
+      '</dict>'
+    ].join('\\s*')));
+    assert.match(plist, new RegExp([
+      '<key>scope</key>', '<string>comment</string>',
+      '<key>settings</key>',
+      '<dict>',
+      '<key>foreground</key>', '<string>#808080</string>',
+      '<key>fontStyle</key>', '<string>italic strikethrough</string>',
+      '</dict>'
+    ].join('\\s*')));
+    assert.match(plist, /<string>string - meta\.embedded<\/string>/);
+    assert.ok(plist.endsWith('</array>\n</dict>\n</plist>\n'));
+  });
+
+  test('writes a Sublime Text color scheme with supported font styles only', () => {
+    assert.deepStrictEqual(JSON.parse(new SublimeColorSchemeSerializer().serialize(synthesis.theme)), {
+      name: 'Modus <Operandi> & Co',
+      globals: { background: '#ffffff', foreground: '#000000', caret: '#000000', selection: '#00000040' },
+      rules: [
+        { scope: 'comment', foreground: '#808080', font_style: 'italic' },
+        { scope: 'string - meta.embedded', foreground: '#000000' },
+        { scope: 'markup.heading', background: '#ffffff', font_style: 'bold' }
+      ]
+    });
+  });
+});
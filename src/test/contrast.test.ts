@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import { IThemeSynthesis, StandardColorTransformer, WcagContrastAuditor } from '../core';
+import { createExtensionRoot, processingError, synthesize } from './helpers';
+
+suite('Contrast audit', () => {
+  let root: string;
+  let syntheses: Record<string, IThemeSynthesis>;
+  const auditor = new WcagContrastAuditor(new StandardColorTransformer());
+
+  suiteSetup(async () => {
+    root = await createExtensionRoot({
+      'config/modus-editor.json': {
+        'editor.background': 'bg-main',
+        'editor.foreground': 'fg-main',
+        'editorLineNumber.foreground': 'fg-dim',
+        'sideBar.background': 'bg-main',
+        'list.hoverBackground': 'fg-main@0.9',
+        'list.hoverForeground': 'fg-main'
+      }
+    });
+    syntheses = await synthesize(root);
+  });
+
+  suiteTeardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('computes WCAG contrast ratios', () => {
+    assert.strictEqual(auditor.computeContrastRatio('#000000', '#ffffff'), 21);
+    assert.strictEqual(auditor.computeContrastRatio('#ffffff', '#ffffff'), 1);
+    assert.strictEqual(auditor.computeContrastRatio('#777777', '#ffffff').toFixed(2), '4.48');
+    assert.strictEqual(auditor.computeContrastRatio('#00000000', '#ffffff'), 1);
+  });
+
+  test('composites translucent backgrounds over their backdrop', () => {
+    assert.strictEqual(auditor.computeContrastRatio('#000000', '#00000000', '#ffffff'), 21);
+    assert.strictEqual(auditor.computeContrastRatio('#000000', '#000000ff'), 1);
+    assert.throws(
+      () => auditor.computeContrastRatio('#000000', '#ffffff80'),
+      processingError('COLOR_FORMAT_ERROR', /needs a backdrop/)
+    );
+  });
+
+  test('reports element and token pairs below the minimum ratio with their references', () => {
+    const findings = auditor.audit(syntheses['modus-operandi']);
+
+    assert.deepStrictEqual(
+      findings.map(({ ratio, ...finding }) => ({ ...finding, ratio: ratio.toFixed(2) })),
+      [
+        {
+          themeId: 'modus-operandi',
+          foreground: 'editorLineNumber.foreground',
+          background: 'editor.background',
+          foregroundReference: 'fg-dim',
+          backgroundReference: 'bg-main',
+          ratio: '3.95'
+        },
+        {
+          themeId: 'modus-operandi',
+          foreground: 'list.hoverForeground',
+          background: 'list.hoverBackground',
+          foregroundReference: 'fg-main',
+          backgroundReference: 'fg-main@0.9',
+          ratio: '1.19'
+        },
+        {
+          themeId: 'modus-operandi',
+          foreground: 'comment',
+          background: 'editor.background',
+          foregroundReference: 'fg-dim',
+          backgroundReference: 'bg-main',
+          ratio: '3.95'
+        }
+      ]
+    );
+  });
+
+  test('applies the configured minimum ratio', () => {
+    const relaxed = new WcagContrastAuditor(new StandardColorTransformer(), 4.5);
+
+    assert.deepStrictEqual(
+      relaxed.audit(syntheses['modus-vivendi-tinted']).map(finding => finding.foreground),
+      ['list.hoverForeground']
+    );
+    assert.deepStrictEqual(
+      relaxed.audit(syntheses['modus-operandi']).map(finding => finding.foreground),
+      ['editorLineNumber.foreground', 'list.hoverForeground', 'comment']
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import { CssCustomPropertiesExporter, IThemeSynthesis, ModusThemeAnalyzer } from '../core';
+import { createExtensionRoot, processingError, synthesize } from './helpers';
+
+suite('CSS custom properties', () => {
+  let root: string;
+  let syntheses: IThemeSynthesis[];
+  const exporter = new CssCustomPropertiesExporter(new ModusThemeAnalyzer());
+
+  suiteSetup(async () => {
+    root = await createExtensionRoot();
+    syntheses = Object.values(await synthesize(root));
+  });
+
+  suiteTeardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('exports palette and workbench colors per theme', () => {
+    const css = exporter.export(syntheses);
+
+    assert.match(css, /\[data-modus-theme="modus-operandi"\] \{[^}]*--modus-bg-main: #ffffff;[^}]*\}/);
+    assert.match(css, /\[data-modus-theme="modus-vivendi-tinted"\] \{[^}]*--modus-editor-background: #0d0e1c;[^}]*\}/);
+    assert.match(css, /--modus-fg-dim: #808080;/);
+    assert.match(css, /--modus-editor-selectionBackground: #ffffff80;/);
+    assert.doesNotMatch(css, /prefers-color-scheme/);
+  });
+
+  test('applies a light and dark pairing to documents without a theme attribute', () => {
+    const css = exporter.export(syntheses, { light: 'modus-operandi', dark: 'modus-vivendi-tinted' });
+
+    assert.match(
+      css,
+      /@media \(prefers-color-scheme: light\) \{\n {2}\/\* Modus Operandi \*\/\n {2}:root:not\(\[data-modus-theme\]\) \{\n {4}color-scheme: light;/
+    );
+    assert.match(css, /@media \(prefers-color-scheme: dark\) \{[^@]*--modus-bg-main: #0d0e1c;/);
+  });
+
+  test('rejects a pairing with an unknown theme', () => {
+    assert.throws(
+      () => exporter.export(syntheses, { light: 'modus-operandi', dark: 'modus-vivendi' }),
+      processingError('INVALID_THEME', /Unknown theme for dark pairing: modus-vivendi/)
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { IColorPalette, ModusThemeAnalyzer } from '../core';
+import { processingError } from './helpers';
+
+suite('Color functions', () => {
+  const analyzer = new ModusThemeAnalyzer();
+  const palette: IColorPalette = analyzer.mergeColorSources(
+    {
+      hex: { black: '#000000', white: '#ffffff', grey: '#808080', red: '#ff0000' },
+      semantic: { err: 'red', 'bg-main': 'black', 'fg-dim': 'mix(white, black, 0.25)' }
+    },
+    { hex: {}, semantic: {} },
+    {},
+    'modus-test'
+  );
+
+  test('applies opacity suffixes', () => {
+    assert.strictEqual(analyzer.resolveColorReference('white@0.5', palette), '#ffffff80');
+    assert.strictEqual(analyzer.resolveColorReference('err@0', palette), '#ff000000');
+  });
+
+  test('evaluates mix, lighten and darken', () => {
+    assert.strictEqual(analyzer.resolveColorReference('mix(black, white, 0.5)', palette), '#808080');
+    assert.strictEqual(analyzer.resolveColorReference('mix(black, white, 25%)', palette), '#404040');
+    assert.strictEqual(analyzer.resolveColorReference('lighten(grey, 10%)', palette), '#9a9a9a');
+    assert.strictEqual(analyzer.resolveColorReference('darken(grey, 0.1)', palette), '#676767');
+  });
+
+  test('evaluates nested functions, aliases and opacity suffixes', () => {
+    assert.strictEqual(analyzer.resolveColorReference('fg-dim', palette), '#bfbfbf');
+    assert.strictEqual(analyzer.resolveColorReference('mix(bg-main, lighten(black, 100%), 0.5)', palette), '#808080');
+    assert.strictEqual(analyzer.resolveColorReference('mix(black, white, 0.5)@0.5', palette), '#80808080');
+    assert.strictEqual(analyzer.resolveColorReference('darken(white@0.5, 0%)', palette), '#ffffff80');
+  });
+
+  test('rejects invalid expressions', () => {
+    const invalid = [
+      'blend(black, white, 0.5)',
+      'mix(black, white)',
+      'mix(black, white, 2)',
+      'mix(black, 0.5, 0.5)',
+      'lighten(grey, 10%',
+      'lighten(grey, 10%) extra'
+    ];
+
+    for (const expression of invalid) {
+      assert.throws(
+        () => analyzer.resolveColorReference(expression, palette),
+        processingError('COLOR_EXPRESSION_ERROR', /^Invalid color expression/),
+        expression
+      );
+    }
+  });
+
+  test('rejects unknown arguments and invalid opacities', () => {
+    assert.throws(
+      () => analyzer.resolveColorReference('mix(black, missing, 0.5)', palette),
+      processingError('COLOR_REFERENCE_ERROR', /"missing" not found in palette/)
+    );
+    assert.throws(
+      () => analyzer.resolveColorReference('white@1.5', palette),
+      processingError('COLOR_OPACITY_ERROR')
+    );
+    assert.throws(
+      () => analyzer.resolveColorReference('mix(black, white, 0.5)@2', palette),
+      processingError('COLOR_OPACITY_ERROR')
+    );
+  });
+});
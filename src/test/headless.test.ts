@@ -0,0 +1,91 @@
+import * as assert from 'assert';
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { promisify } from 'util';
+import { ThemeOrchestrationService } from '../core';
+import { configure, createExtensionRoot, createOrchestrator, writeExtensionFile } from './helpers';
+
+/** Compiled command-line entry point, next to the compiled test directory */
+const CLI_PATH = path.join(__dirname, '..', 'cli.js');
+
+suite('Configuration parsing', () => {
+  test('falls back to defaults for malformed values', () => {
+    const config = configure({ colorOverrides: 'bg-main', liveOverrides: 'yes' });
+
+    assert.deepStrictEqual(config.colorOverrides, {});
+    assert.strictEqual(config.liveOverrides, false);
+  });
+
+  test('strips comments outside string literals', () => {
+    const text = [
+      '{',
+      '  // Line comment',
+      '  "url": "https://example.com", /* block',
+      '  comment */ "escaped": "\\" // kept"',
+      '}'
+    ].join('\n');
+
+    assert.deepStrictEqual(
+      JSON.parse(ThemeOrchestrationService.stripJsonComments(text)),
+      { url: 'https://example.com', escaped: '" // kept' }
+    );
+  });
+});
+
+suite('Headless generation', () => {
+  let root: string;
+
+  setup(async () => {
+    root = await createExtensionRoot({ 'package.json': { version: '0.0.0' } });
+  });
+
+  teardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('writes only the theme files when last-good copies are disabled', async () => {
+    const written = await createOrchestrator(root, undefined, false).generateAllThemes(root, configure(), true);
+
+    assert.deepStrictEqual(written.sort(), ['modus-operandi', 'modus-vivendi-tinted']);
+    assert.deepStrictEqual(
+      (await fs.readdir(path.join(root, 'themes'))).sort(),
+      ['modus-operandi-color-theme.json', 'modus-vivendi-tinted-color-theme.json']
+    );
+  });
+
+  test('generates themes from a settings file on the command line', async () => {
+    await writeExtensionFile(root, 'settings.json', [
+      '{',
+      '  // Overrides for every theme',
+      '  "modus.colorOverrides": { "fg-main": "#202020" },',
+      '  "editor.fontSize": 14',
+      '}'
+    ].join('\n'));
+    const outputDir = path.join(root, 'out');
+
+    const { stdout } = await promisify(execFile)(
+      process.execPath,
+      [CLI_PATH, root, path.join(root, 'settings.json'), outputDir]
+    );
+    const operandi = JSON.parse(await fs.readFile(path.join(outputDir, 'modus-operandi-color-theme.json'), 'utf8'));
+
+    assert.strictEqual(stdout.split('\n').filter(line => line !== '').pop(), '2 theme file(s) written');
+    assert.strictEqual(operandi.colors['editor.foreground'], '#202020');
+    assert.deepStrictEqual(
+      (await fs.readdir(outputDir)).sort(),
+      ['modus-operandi-color-theme.json', 'modus-vivendi-tinted-color-theme.json']
+    );
+  });
+
+  test('exits with a usage error for missing arguments', async () => {
+    await assert.rejects(
+      promisify(execFile)(process.execPath, [CLI_PATH, root]),
+      (error: { code?: number; stderr?: string }) => {
+        assert.strictEqual(error.code, 2);
+        assert.match(error.stderr ?? '', /^Usage: node out\/cli\.js/);
+        return true;
+      }
+    );
+  });
+});
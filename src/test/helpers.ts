@@ -0,0 +1,184 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ConfigurationParser,
+  IConfiguration,
+  IManifestStore,
+  IThemeSynthesis,
+  MemoryManifestStore,
+  ModusThemeAnalyzer,
+  ThemeOrchestrationService,
+  ThemeProcessingError,
+  VSCodeThemeFactory,
+  VSCodeThemeSerializer,
+  VSCodeThemeValidator
+} from '../core';
+
+/**
+ * Build a predicate for assert.throws and assert.rejects matching a theme
+ * processing error
+ *
+ * @param code - Expected error code
+ * @param message - Pattern the message must match
+ * @returns Validation function
+ */
+export function processingError(code: string, message?: RegExp): (error: unknown) => boolean {
+  return (error: unknown) => {
+    assert.ok(error instanceof ThemeProcessingError, `expected a ThemeProcessingError, got ${String(error)}`);
+    assert.strictEqual(error.code, code, error.message);
+    if (message) {
+      assert.match(error.message, message);
+    }
+    return true;
+  };
+}
+
+/**
+ * Build an Emacs Lisp palette definition
+ *
+ * The first entry is on line 6.
+ *
+ * @param name - Palette variable name
+ * @param entries - Entry lines, each "(name value)"
+ * @returns Theme source text
+ */
+export function paletteSource(name: string, entries: string[]): string {
+  return [
+    ';;; Test theme',
+    '',
+    '(eval-and-compile',
+    `  (defconst ${name}`,
+    '    \'(',
+    ...entries.map(entry => `      ${entry}`),
+    '      )))',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Build a configuration from raw setting values
+ *
+ * @param settings - Setting values keyed relative to "modus"
+ * @returns Parsed configuration
+ */
+export function configure(settings: Record<string, unknown> = {}): IConfiguration {
+  return new ConfigurationParser().parse(key => settings[key]);
+}
+
+/**
+ * Files of a minimal extension root with a light and a dark theme, keyed by
+ * path relative to the root; strings are written as they are, anything else
+ * as JSON
+ */
+export const EXTENSION_FILES: Readonly<Record<string, unknown>> = Object.freeze({
+  'config/modus-themes.json': [
+    {
+      id: 'modus-operandi',
+      name: 'Modus Operandi',
+      type: 'light',
+      source: 'upstream/modus-operandi-theme.el',
+      description: 'Light test theme'
+    },
+    {
+      id: 'modus-vivendi-tinted',
+      name: 'Modus Vivendi Tinted',
+      type: 'dark',
+      source: 'upstream/modus-vivendi-tinted-theme.el',
+      description: 'Dark test theme'
+    }
+  ],
+  'config/modus-editor.json': [
+    '{',
+    '  // Base colors',
+    '  //',
+    '  "editor.background": "bg-main",',
+    '  "editor.foreground": "fg-main",',
+    '  "editor.selectionBackground": "bg-main@0.5"',
+    '}',
+    ''
+  ].join('\n'),
+  'config/modus-tokens.json': { semantic: { variable: 'fg-main' }, textMate: { comment: 'fg-dim' } },
+  'config/modus-palette.json': { hex: {}, semantic: { 'fg-dim': 'mix(fg-main, bg-main, 0.5)' } },
+  'upstream/modus-operandi-theme.el': paletteSource('modus-operandi-palette', [
+    '(bg-main "#ffffff")',
+    '(fg-main "#000000")'
+  ]),
+  'upstream/modus-vivendi-tinted-theme.el': paletteSource('modus-vivendi-tinted-palette', [
+    '(bg-main "#0d0e1c")',
+    '(fg-main "#ffffff")'
+  ]),
+  'upstream/modus-themes.el': '(defvar modus-themes-preset-overrides-faint \'((fg-main "#595959")))\n'
+});
+
+/**
+ * Create an extension root in a temporary directory
+ *
+ * @param files - Files replacing or adding to EXTENSION_FILES
+ * @returns Path of the extension root
+ */
+export async function createExtensionRoot(files: Record<string, unknown> = {}): Promise<string> {
+  const root = await fs.mkdtemp(path.join(os.tmpdir(), 'modus-test-'));
+
+  for (const [relativePath, content] of Object.entries({ ...EXTENSION_FILES, ...files })) {
+    await writeExtensionFile(root, relativePath, content);
+  }
+
+  return root;
+}
+
+/**
+ * Write a file below an extension root
+ *
+ * @param root - Extension root
+ * @param relativePath - Path relative to the root
+ * @param content - File contents, written as JSON unless a string
+ */
+export async function writeExtensionFile(root: string, relativePath: string, content: unknown): Promise<void> {
+  const filePath = path.join(root, relativePath);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, typeof content === 'string' ? content : JSON.stringify(content), 'utf8');
+}
+
+/**
+ * Create an orchestrator writing to the themes directory of an extension root
+ *
+ * @param root - Extension root
+ * @param manifestStore - Store of the generation manifest
+ * @param keepLastGood - Whether to keep last-known-good copies
+ * @returns Orchestration service
+ */
+export function createOrchestrator(
+  root: string,
+  manifestStore: IManifestStore = new MemoryManifestStore(),
+  keepLastGood = true
+): ThemeOrchestrationService {
+  const analyzer = new ModusThemeAnalyzer();
+
+  return new ThemeOrchestrationService(
+    analyzer,
+    new VSCodeThemeFactory(analyzer),
+    new VSCodeThemeSerializer(),
+    new VSCodeThemeValidator(),
+    manifestStore,
+    '0.0.0',
+    path.join(root, 'themes'),
+    keepLastGood
+  );
+}
+
+/**
+ * Synthesize every theme of an extension root
+ *
+ * @param root - Extension root
+ * @param settings - Setting values keyed relative to "modus"
+ * @returns Syntheses keyed by theme id
+ */
+export async function synthesize(
+  root: string,
+  settings: Record<string, unknown> = {}
+): Promise<Record<string, IThemeSynthesis>> {
+  const syntheses = await createOrchestrator(root).synthesizeAllThemes(root, configure(settings));
+  return Object.fromEntries(syntheses.map(synthesis => [synthesis.definition.id, synthesis]));
+}
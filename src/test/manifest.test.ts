@@ -0,0 +1,63 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { MemoryManifestStore } from '../core';
+import { configure, createExtensionRoot, createOrchestrator, writeExtensionFile } from './helpers';
+
+suite('Incremental generation', () => {
+  let root: string;
+  let store: MemoryManifestStore;
+
+  /**
+   * Generate the themes of the test root against the shared manifest
+   *
+   * @param settings - Setting values keyed relative to "modus"
+   * @param force - Whether to synthesize every theme regardless of the manifest
+   * @returns Sorted ids of the themes written
+   */
+  async function generate(settings: Record<string, unknown> = {}, force = false): Promise<string[]> {
+    return (await createOrchestrator(root, store).generateAllThemes(root, configure(settings), force)).sort();
+  }
+
+  setup(async () => {
+    root = await createExtensionRoot();
+    store = new MemoryManifestStore();
+  });
+
+  teardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('skips themes whose inputs and output are unchanged', async () => {
+    assert.deepStrictEqual(await generate(), ['modus-operandi', 'modus-vivendi-tinted']);
+    assert.deepStrictEqual(Object.keys(store.load()).sort(), ['modus-operandi', 'modus-vivendi-tinted']);
+    assert.deepStrictEqual(await generate(), []);
+  });
+
+  test('regenerates only the themes whose inputs changed', async () => {
+    await generate();
+
+    const sourcePath = 'upstream/modus-vivendi-tinted-theme.el';
+    const source = await fs.readFile(path.join(root, sourcePath), 'utf8');
+    await writeExtensionFile(root, sourcePath, source.replace('#0d0e1c', '#0d0e1d'));
+    assert.deepStrictEqual(await generate(), ['modus-vivendi-tinted']);
+
+    assert.deepStrictEqual(await generate({ colorOverrides: { '[light]': { 'bg-main': '#fefefe' } } }), ['modus-operandi']);
+    assert.deepStrictEqual(await generate({ colorOverrides: { '[light]': { 'bg-main': '#fefefe' } } }), []);
+  });
+
+  test('regenerates themes whose file was changed on disk', async () => {
+    await generate();
+    await fs.writeFile(path.join(root, 'themes', 'modus-operandi-color-theme.json'), '{}', 'utf8');
+
+    assert.deepStrictEqual(await generate(), ['modus-operandi']);
+  });
+
+  test('rebuilds the manifest without writing files when a forced run changes nothing', async () => {
+    await generate();
+    await store.save({});
+
+    assert.deepStrictEqual(await generate({}, true), []);
+    assert.deepStrictEqual(Object.keys(store.load()).sort(), ['modus-operandi', 'modus-vivendi-tinted']);
+  });
+});
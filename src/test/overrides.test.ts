@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import { ITheme, ThemeOrchestrationService, ThemeType } from '../core';
+import { configure, createExtensionRoot, synthesize } from './helpers';
+
+suite('Per-theme color overrides', () => {
+  let root: string;
+
+  suiteSetup(async () => {
+    root = await createExtensionRoot();
+  });
+
+  suiteTeardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('splits global and theme-scoped overrides', () => {
+    const config = configure({
+      colorOverrides: {
+        'bg-main': '#111111',
+        '[dark]': { 'bg-main': '#222222', ignored: 1 },
+        '[light]': '#333333'
+      }
+    });
+
+    assert.deepStrictEqual(config.colorOverrides, { 'bg-main': '#111111' });
+    assert.deepStrictEqual(config.themeOverrides, { dark: { 'bg-main': '#222222' } });
+    assert.deepStrictEqual(config.warnings, [
+      'Ignoring "modus.colorOverrides" entry "[light]": theme overrides must be an object'
+    ]);
+  });
+
+  test('matches theme ids, types and documented groups only', () => {
+    const theme: ITheme = { id: 'modus-vivendi-tinted', name: 'Modus Vivendi Tinted', type: ThemeType.DARK };
+    const matches = (selector: string) => ThemeOrchestrationService.matchesThemeSelector(selector, theme);
+
+    assert.deepStrictEqual(
+      ['modus-vivendi-tinted', 'dark', 'vivendi', 'tinted'].filter(matches),
+      ['modus-vivendi-tinted', 'dark', 'vivendi', 'tinted']
+    );
+    assert.deepStrictEqual(
+      ['modus', 'modus-vivendi', 'light', 'operandi', 'deuteranopia', 'Tinted'].filter(matches),
+      []
+    );
+  });
+
+  test('finds selectors that match no theme', () => {
+    const themes: ITheme[] = [
+      { id: 'modus-operandi', name: 'Modus Operandi', type: ThemeType.LIGHT },
+      { id: 'modus-vivendi', name: 'Modus Vivendi', type: ThemeType.DARK }
+    ];
+    const config = configure({
+      colorOverrides: { '[light]': {}, '[tinted]': {}, '[modus]': {}, '[modus-vivendi]': {}, '[operandi]': {} }
+    });
+
+    assert.deepStrictEqual(ThemeOrchestrationService.findUnknownSelectors(config, themes), ['tinted', 'modus']);
+  });
+
+  test('applies global, group and theme overrides in order of specificity', async () => {
+    const syntheses = await synthesize(root, {
+      colorOverrides: {
+        'bg-main': '#111111',
+        '[modus-vivendi-tinted]': { 'bg-main': '#555555' },
+        '[dark]': { 'bg-main': '#222222', 'fg-main': '#eeeeee' },
+        '[tinted]': { 'fg-main': '#dddddd' },
+        '[modus]': { 'fg-main': '#666666' }
+      }
+    });
+
+    const operandi = syntheses['modus-operandi'].theme.colors;
+    const vivendi = syntheses['modus-vivendi-tinted'].theme.colors;
+
+    assert.strictEqual(operandi['editor.background'], '#111111');
+    assert.strictEqual(operandi['editor.foreground'], '#000000');
+    assert.strictEqual(vivendi['editor.background'], '#555555');
+    assert.strictEqual(vivendi['editor.foreground'], '#dddddd');
+  });
+
+  test('honours overrides keyed by editor color id', async () => {
+    const syntheses = await synthesize(root, { colorOverrides: { 'editor.selectionBackground': 'fg-main@0.25' } });
+
+    assert.strictEqual(syntheses['modus-operandi'].theme.colors['editor.selectionBackground'], '#00000040');
+    assert.strictEqual(syntheses['modus-vivendi-tinted'].theme.colors['editor.selectionBackground'], '#ffffff40');
+  });
+});
@@ -0,0 +1,143 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ModusThemeAnalyzer } from '../core';
+import { paletteSource, processingError } from './helpers';
+
+suite('Emacs palette parsing', () => {
+  let directory: string;
+  const analyzer = new ModusThemeAnalyzer();
+
+  suiteSetup(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'modus-parse-'));
+  });
+
+  suiteTeardown(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * Write a theme source into the test directory
+   *
+   * @param fileName - File name, which selects the expected palette name
+   * @param content - Theme source text
+   * @returns Path of the written file
+   */
+  async function writeSource(fileName: string, content: string): Promise<string> {
+    const filePath = path.join(directory, fileName);
+    await fs.writeFile(filePath, content, 'utf8');
+    return filePath;
+  }
+
+  test('reads hex, semantic and unspecified entries with their lines', async () => {
+    const filePath = await writeSource('modus-test-theme.el', paletteSource('modus-test-palette', [
+      ';; Basic values',
+      '(bg-main "#000000")',
+      '(fg-main "#ffffff")',
+      '(cursor fg-main)',
+      '(bg-hl-line unspecified)'
+    ]));
+
+    const entries = await analyzer.extractPaletteEntries(filePath);
+
+    assert.deepStrictEqual(
+      entries.map(entry => [entry.name, entry.value, entry.kind, entry.line]),
+      [
+        ['bg-main', '#000000', 'hex', 7],
+        ['fg-main', '#ffffff', 'hex', 8],
+        ['cursor', 'fg-main', 'semantic', 9],
+        ['bg-hl-line', 'unspecified', 'unspecified', 10]
+      ]
+    );
+  });
+
+  test('keeps the first of duplicate entries, as assq does', async () => {
+    const filePath = await writeSource('modus-duplicate-theme.el', paletteSource('modus-duplicate-palette', [
+      '(bg-main "#000000")',
+      '(bg-main "#111111")'
+    ]));
+
+    const palette = await analyzer.analyzeSource(filePath);
+
+    assert.deepStrictEqual(palette, { hex: { 'bg-main': '#000000' }, semantic: {} });
+  });
+
+  test('picks the palette named after the file among several', async () => {
+    const filePath = await writeSource('modus-second-theme.el', [
+      paletteSource('modus-first-palette', ['(bg-main "#000000")']),
+      paletteSource('modus-second-palette', ['(bg-main "#222222")'])
+    ].join('\n'));
+
+    const palette = await analyzer.analyzeSource(filePath);
+
+    assert.strictEqual(palette.hex['bg-main'], '#222222');
+  });
+
+  test('reads past the other forms of a theme source', async () => {
+    const filePath = await writeSource('modus-forms-theme.el', [
+      ';;; modus-forms-theme.el --- Test theme -*- lexical-binding:t -*-',
+      '(require \'modus-themes)',
+      '(defvar modus-forms-doc "A \\"quoted\\" string; not a comment")',
+      '(defun modus-forms-keys () (list ?a ?\\( [1 2 3] #\'ignore `(a ,b ,@c)))',
+      paletteSource('modus-forms-palette', ['(bg-main "#000000") ; trailing comment', '(fg-main bg-main)'])
+    ].join('\n'));
+
+    assert.deepStrictEqual(await analyzer.analyzeSource(filePath), {
+      hex: { 'bg-main': '#000000' },
+      semantic: { 'fg-main': 'bg-main' }
+    });
+  });
+
+  test('reports an unterminated string at its opening quote', async () => {
+    const filePath = await writeSource('modus-string-theme.el', paletteSource('modus-string-palette', [
+      '(bg-main "#000000)'
+    ]));
+
+    await assert.rejects(
+      analyzer.extractPaletteEntries(filePath),
+      processingError('PARSE_ERROR', /modus-string-theme\.el:6:16: Unterminated string$/)
+    );
+  });
+
+  test('reports an unterminated list just past the end of the source', async () => {
+    const filePath = await writeSource('modus-list-theme.el', '(defconst modus-list-palette\n  \'((bg-main "#000000")');
+
+    await assert.rejects(
+      analyzer.extractPaletteEntries(filePath),
+      processingError('PARSE_ERROR', /modus-list-theme\.el:2:24: Unterminated sequence, expected "\)"$/)
+    );
+  });
+
+  test('reports an invalid hex color at its value', async () => {
+    const filePath = await writeSource('modus-hex-theme.el', paletteSource('modus-hex-palette', [
+      '(bg-main "#000000")',
+      '(fg-main "#fffff")'
+    ]));
+
+    await assert.rejects(
+      analyzer.extractPaletteEntries(filePath),
+      processingError('PARSE_ERROR', /modus-hex-theme\.el:7:16: Invalid hex color "#fffff" for "fg-main"$/)
+    );
+  });
+
+  test('reports a malformed entry at the entry', async () => {
+    const filePath = await writeSource('modus-entry-theme.el', paletteSource('modus-entry-palette', [
+      '(bg-main "#000000" extra)'
+    ]));
+
+    await assert.rejects(
+      analyzer.extractPaletteEntries(filePath),
+      processingError('PARSE_ERROR', /modus-entry-theme\.el:6:7: Palette entry must have the form \(NAME VALUE\)$/)
+    );
+  });
+
+  test('reports a missing palette definition', async () => {
+    const filePath = await writeSource('modus-empty-theme.el', '(defvar modus-empty-other nil)\n');
+
+    await assert.rejects(
+      analyzer.extractPaletteEntries(filePath),
+      processingError('PARSE_ERROR', /modus-empty-theme\.el:1:1: No palette definition found/)
+    );
+  });
+});
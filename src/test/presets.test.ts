@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ModusThemeAnalyzer, PalettePreset, PaletteSource } from '../core';
+import { configure, createExtensionRoot, processingError, synthesize } from './helpers';
+
+suite('Palette presets', () => {
+  let root: string;
+  const analyzer = new ModusThemeAnalyzer();
+
+  suiteSetup(async () => {
+    root = await createExtensionRoot();
+  });
+
+  suiteTeardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  /**
+   * Write an upstream modus-themes.el into the extension root
+   *
+   * @param content - Emacs Lisp source text
+   * @returns Path of the written file
+   */
+  async function writeThemesSource(content: string): Promise<string> {
+    const filePath = path.join(root, 'upstream', 'modus-themes-test.el');
+    await fs.writeFile(filePath, content, 'utf8');
+    return filePath;
+  }
+
+  test('loads a preset bound with defvar', async () => {
+    const filePath = await writeThemesSource([
+      '(defvar modus-themes-preset-overrides-faint',
+      '  \'((bg-completion bg-inactive)',
+      '    (fg-prompt "#005f5f"))',
+      '  "Faint preset.")',
+      ''
+    ].join('\n'));
+
+    assert.deepStrictEqual(
+      await analyzer.loadPreset(filePath, PalettePreset.FAINT),
+      { 'bg-completion': 'bg-inactive', 'fg-prompt': '#005f5f' }
+    );
+    assert.deepStrictEqual(await analyzer.loadPreset(filePath, PalettePreset.NONE), {});
+  });
+
+  test('reports a preset missing from the upstream source', async () => {
+    const filePath = await writeThemesSource('(defvar modus-themes-preset-overrides-faint nil)\n');
+
+    await assert.rejects(
+      analyzer.loadPreset(filePath, PalettePreset.INTENSE),
+      processingError('PARSE_ERROR', /No definition found for "modus-themes-preset-overrides-intense"/)
+    );
+  });
+
+  test('treats unknown preset settings as none', () => {
+    assert.strictEqual(configure({ palettePreset: 'bright' }).palettePreset, PalettePreset.NONE);
+    assert.strictEqual(configure({ palettePreset: 'warmer' }).palettePreset, PalettePreset.WARMER);
+  });
+
+  test('applies a preset below user overrides', async () => {
+    const preset = await synthesize(root, { palettePreset: 'faint' });
+    const overridden = await synthesize(root, {
+      palettePreset: 'faint',
+      colorOverrides: { 'fg-main': '#202020' }
+    });
+
+    assert.strictEqual(preset['modus-operandi'].theme.colors['editor.foreground'], '#595959');
+    assert.strictEqual(preset['modus-operandi'].palette.origins?.['fg-main'], PaletteSource.PRESET);
+    assert.strictEqual(overridden['modus-operandi'].theme.colors['editor.foreground'], '#202020');
+    assert.strictEqual(overridden['modus-operandi'].palette.origins?.['fg-main'], PaletteSource.OVERRIDE);
+  });
+
+  test('fails synthesis for a preset missing from the upstream source', async () => {
+    await assert.rejects(
+      synthesize(root, { palettePreset: 'cooler' }),
+      processingError('ORCHESTRATION_ERROR', /No definition found for "modus-themes-preset-overrides-cooler"/)
+    );
+  });
+});
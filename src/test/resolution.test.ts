@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import { IColorPalette, ModusThemeAnalyzer, ResolutionStepKind } from '../core';
+import { processingError } from './helpers';
+
+suite('Color resolution', () => {
+  const analyzer = new ModusThemeAnalyzer();
+  const palette: IColorPalette = analyzer.mergeColorSources(
+    {
+      hex: { black: '#000000', white: '#ffffff', grey: '#808080', red: '#ff0000' },
+      semantic: { err: 'red', 'bg-main': 'black', 'fg-dim': 'mix(white, black, 0.25)' }
+    },
+    { hex: {}, semantic: {}, variants: { 'modus-test': { 'bg-tab': 'grey' } } },
+    {},
+    'modus-test'
+  );
+
+  test('resolves hex, semantic and variant names', () => {
+    assert.strictEqual(analyzer.resolveColorReference('red', palette), '#ff0000');
+    assert.strictEqual(analyzer.resolveColorReference('err', palette), '#ff0000');
+    assert.strictEqual(analyzer.resolveColorReference('bg-tab', palette), '#808080');
+    assert.strictEqual(analyzer.resolveColorReference('#123456', palette), '#123456');
+    assert.strictEqual(analyzer.resolveColorReference('unspecified', palette), undefined);
+  });
+
+  test('rejects unknown names', () => {
+    assert.throws(
+      () => analyzer.resolveColorReference('missing', palette),
+      processingError('COLOR_REFERENCE_ERROR', /"missing" not found in palette/)
+    );
+  });
+
+  test('detects cycles through aliases and functions', () => {
+    const cyclic = analyzer.mergeColorSources(
+      { hex: { white: '#ffffff' }, semantic: { first: 'second', second: 'lighten(third, 5%)', third: 'first' } },
+      { hex: {}, semantic: {} },
+      { self: 'self@0.5' },
+      'modus-test'
+    );
+
+    assert.throws(
+      () => analyzer.resolveColorReference('first', cyclic),
+      processingError('COLOR_CYCLE_ERROR', /first -> second -> lighten\(third, 5%\) -> third -> first/)
+    );
+    assert.throws(
+      () => analyzer.resolveColorReference('self', cyclic),
+      processingError('COLOR_CYCLE_ERROR', /self -> self@0\.5 -> self/)
+    );
+
+    // A failed resolution must not leave names behind that later
+    // resolutions would mistake for a cycle
+    //
+    assert.strictEqual(analyzer.resolveColorReference('white', cyclic), '#ffffff');
+  });
+
+  test('traces every step of a resolution', () => {
+    const trace = analyzer.traceColorReference('err@0.5', palette);
+
+    assert.strictEqual(trace.result, '#ff000080');
+    assert.deepStrictEqual(
+      trace.steps.map(step => [step.reference, step.kind, step.value]),
+      [
+        ['err@0.5', ResolutionStepKind.OPACITY, '#ff000080'],
+        ['err', ResolutionStepKind.SEMANTIC, 'red'],
+        ['red', ResolutionStepKind.HEX, '#ff0000']
+      ]
+    );
+  });
+
+  test('traces the base name of a hex entry with opacity', () => {
+    const trace = analyzer.traceColorReference('red@0.25', palette);
+
+    assert.strictEqual(trace.result, '#ff000040');
+    assert.deepStrictEqual(
+      trace.steps.map(step => [step.reference, step.kind, step.value, step.depth]),
+      [
+        ['red@0.25', ResolutionStepKind.OPACITY, '#ff000040', 0],
+        ['red', ResolutionStepKind.HEX, '#ff0000', 1]
+      ]
+    );
+  });
+
+  test('traces color function arguments', () => {
+    const trace = analyzer.traceColorReference('darken(bg-main, 0%)', palette);
+
+    assert.strictEqual(trace.result, '#000000');
+    assert.deepStrictEqual(
+      trace.steps.map(step => [step.reference, step.kind, step.value]),
+      [
+        ['darken(bg-main, 0%)', ResolutionStepKind.EXPRESSION, '#000000'],
+        ['bg-main', ResolutionStepKind.SEMANTIC, 'black'],
+        ['black', ResolutionStepKind.HEX, '#000000']
+      ]
+    );
+  });
+
+  test('traces the variant entries of an unmerged palette', () => {
+    const unmerged: IColorPalette = {
+      hex: { red: '#ff0000' },
+      semantic: {},
+      variants: { 'modus-test': { accent: 'red' }, 'modus-other': { accent: '#00ff00' } },
+      themeId: 'modus-test'
+    };
+
+    const trace = analyzer.traceColorReference('accent', unmerged);
+
+    assert.strictEqual(trace.result, '#ff0000');
+    const steps = trace.steps.map(step => [step.reference, step.kind, step.value]);
+    assert.deepStrictEqual(steps.find(step => step[0] === 'accent'), ['accent', ResolutionStepKind.VARIANT, '#ff0000']);
+    assert.deepStrictEqual(steps.find(step => step[0] === 'red'), ['red', ResolutionStepKind.HEX, '#ff0000']);
+  });
+
+  test('traces unspecified colors without a result', () => {
+    const trace = analyzer.traceColorReference('unspecified', palette);
+
+    assert.strictEqual(trace.result, undefined);
+    assert.deepStrictEqual(trace.steps.map(step => step.kind), [ResolutionStepKind.UNSPECIFIED]);
+  });
+});
@@ -0,0 +1,145 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  GenerationCancelledError,
+  ICancellationToken,
+  IRegenerationResult,
+  RegenerationScheduler
+} from '../core';
+import { configure, createExtensionRoot, createOrchestrator, processingError } from './helpers';
+
+/**
+ * Orchestrator double recording each generation and answering it from a
+ * queue of handlers
+ */
+class FakeOrchestrator {
+  public readonly runs: Array<{ force: boolean; token?: ICancellationToken }> = [];
+  public readonly handlers: Array<(token?: ICancellationToken) => Promise<string[]>> = [];
+
+  /**
+   * Record a generation and run the next handler
+   *
+   * @param _extensionPath - Path to the extension root
+   * @param _config - User configuration
+   * @param force - Synthesize every theme regardless of the manifest
+   * @param token - Cancellation token of the run
+   * @returns Promise resolving to the handler's written ids, none without one
+   */
+  public async generateAllThemes(
+    _extensionPath: string,
+    _config: unknown,
+    force = false,
+    token?: ICancellationToken
+  ): Promise<string[]> {
+    this.runs.push({ force, token });
+    const handler = this.handlers.shift();
+    return handler ? handler(token) : [];
+  }
+}
+
+suite('Regeneration scheduling', () => {
+  let orchestrator: FakeOrchestrator;
+  let results: IRegenerationResult[];
+  let scheduler: RegenerationScheduler;
+
+  setup(() => {
+    orchestrator = new FakeOrchestrator();
+    results = [];
+    scheduler = new RegenerationScheduler(
+      orchestrator,
+      { retrieveConfiguration: () => configure() },
+      '/extension',
+      async result => {
+        results.push(result);
+      }
+    );
+  });
+
+  teardown(() => {
+    scheduler.dispose();
+  });
+
+  test('coalesces requests within the debounce delay into one run', async () => {
+    orchestrator.handlers.push(async () => ['modus-operandi']);
+
+    const written = await Promise.all([
+      scheduler.schedule(),
+      scheduler.schedule({ force: true }),
+      scheduler.schedule({ prompt: true })
+    ]);
+
+    assert.strictEqual(orchestrator.runs.length, 1);
+    assert.strictEqual(orchestrator.runs[0].force, true);
+    assert.deepStrictEqual(written, [['modus-operandi'], ['modus-operandi'], ['modus-operandi']]);
+    assert.deepStrictEqual(results.map(({ written, prompt }) => ({ written, prompt })), [
+      { written: ['modus-operandi'], prompt: true }
+    ]);
+  });
+
+  test('starts immediate requests without waiting for the delay', async () => {
+    const started = Date.now();
+    await scheduler.schedule({ immediate: true });
+
+    assert.ok(Date.now() - started < RegenerationScheduler.DEBOUNCE_DELAY);
+    assert.strictEqual(orchestrator.runs.length, 1);
+  });
+
+  test('hands a cancelled run over to the request that cancelled it, with its written themes', async () => {
+    let release: () => void = () => undefined;
+    const gate = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    let markStarted: () => void = () => undefined;
+    const started = new Promise<void>(resolve => {
+      markStarted = resolve;
+    });
+
+    orchestrator.handlers.push(async token => {
+      markStarted();
+      await gate;
+      if (token?.isCancellationRequested) {
+        throw new GenerationCancelledError(['modus-operandi']);
+      }
+      return ['modus-operandi'];
+    });
+    orchestrator.handlers.push(async () => ['modus-vivendi-tinted']);
+
+    const first = scheduler.schedule({ immediate: true, prompt: true });
+    await started;
+    const second = scheduler.schedule({ immediate: true });
+    release();
+
+    const expected = ['modus-operandi', 'modus-vivendi-tinted'];
+    assert.deepStrictEqual(await Promise.all([first, second]), [expected, expected]);
+    assert.strictEqual(orchestrator.runs.length, 2);
+    assert.strictEqual(orchestrator.runs[0].token?.isCancellationRequested, true);
+    assert.deepStrictEqual(results.map(({ written, prompt }) => ({ written, prompt })), [
+      { written: expected, prompt: true }
+    ]);
+  });
+
+  test('rejects pending requests when disposed', async () => {
+    const pending = scheduler.schedule();
+    scheduler.dispose();
+
+    await assert.rejects(pending, processingError('GENERATION_CANCELLED'));
+    assert.strictEqual(orchestrator.runs.length, 0);
+  });
+});
+
+suite('Generation cancellation', () => {
+  test('writes nothing once cancelled', async () => {
+    const root = await createExtensionRoot();
+
+    try {
+      await assert.rejects(
+        createOrchestrator(root).generateAllThemes(root, configure(), true, { isCancellationRequested: true }),
+        (error: unknown) => error instanceof GenerationCancelledError && error.written.length === 0
+      );
+      assert.deepStrictEqual(await fs.readdir(path.join(root, 'themes')).catch(() => []), []);
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
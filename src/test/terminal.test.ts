@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import {
+  AlacrittyExporter,
+  ITerminalScheme,
+  ModusThemeAnalyzer,
+  TerminalSchemeBuilder,
+  XresourcesExporter
+} from '../core';
+import { createExtensionRoot, paletteSource, processingError, synthesize } from './helpers';
+
+suite('Terminal scheme building', () => {
+  let root: string;
+  const builder = new TerminalSchemeBuilder(new ModusThemeAnalyzer());
+
+  suiteSetup(async () => {
+    root = await createExtensionRoot({
+      'upstream/modus-operandi-theme.el': paletteSource('modus-operandi-palette', [
+        '(bg-main "#ffffff")',
+        '(fg-main "#000000")',
+        '(bg-region "#bcbcbc")',
+        '(red "#a60000")',
+        '(green "#006800")',
+        '(yellow "#6f5500")',
+        '(blue "#0031a9")',
+        '(magenta "#721045")',
+        '(cyan "#005e8b")',
+        '(red-warmer "#972500")',
+        '(green-cooler "#00663f")',
+        '(yellow-warmer "#884900")',
+        '(blue-warmer "#354fcf")',
+        '(magenta-cooler "#531ab6")',
+        '(cyan-cooler "#005f5f")',
+        '(fg-term-red "#aa0000")'
+      ])
+    });
+  });
+
+  suiteTeardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('prefers fg-term mappings and falls back to accent colors', async () => {
+    const synthesis = (await synthesize(root, { colorOverrides: { cursor: 'red@0.5' } }))['modus-operandi'];
+    const { ansi, ...colors } = builder.build(synthesis);
+
+    assert.deepStrictEqual(
+      colors,
+      {
+        name: 'Modus Operandi',
+        foreground: '#000000',
+        background: '#ffffff',
+        cursor: '#a60000',
+        selectionForeground: '#000000',
+        selectionBackground: '#bcbcbc'
+      }
+    );
+    assert.deepStrictEqual(ansi, [
+      '#000000', '#aa0000', '#006800', '#6f5500', '#0031a9', '#721045', '#005e8b', '#a6a6a6',
+      '#595959', '#972500', '#00663f', '#884900', '#354fcf', '#531ab6', '#005f5f', '#ffffff'
+    ]);
+  });
+
+  test('reports colors that resolve through none of their candidates', async () => {
+    const synthesis = (await synthesize(root))['modus-vivendi-tinted'];
+
+    assert.throws(
+      () => builder.build(synthesis),
+      processingError('COLOR_RESOLUTION_ERROR', /None of fg-term-red, red resolves to a color/)
+    );
+  });
+});
+
+suite('Terminal exporters', () => {
+  const scheme: ITerminalScheme = {
+    name: 'Modus Test',
+    foreground: '#ffffff',
+    background: '#000000',
+    cursor: '#ff66ff',
+    selectionForeground: '#ffffff',
+    selectionBackground: '#5a5a5a',
+    ansi: Array.from({ length: 16 }, (_, index) => `#0000${index.toString(16).padStart(2, '0')}`)
+  };
+
+  test('writes Alacritty color tables', () => {
+    const toml = new AlacrittyExporter().export(scheme);
+
+    assert.ok(toml.startsWith('# Modus Test\n\n[colors.primary]\nbackground = "#000000"\nforeground = "#ffffff"\n'));
+    assert.match(toml, /\[colors\.normal\]\nblack = "#000000"\nred = "#000001"/);
+    assert.match(toml, /\[colors\.bright\]\nblack = "#000008"[\s\S]*white = "#00000f"/);
+  });
+
+  test('writes X resources', () => {
+    const resources = new XresourcesExporter().export(scheme).split('\n');
+
+    assert.deepStrictEqual(resources.slice(0, 5), [
+      '! Modus Test',
+      '',
+      '*.foreground: #ffffff',
+      '*.background: #000000',
+      '*.cursorColor: #ff66ff'
+    ]);
+    assert.strictEqual(resources[6], '*.color0: #000000');
+    assert.strictEqual(resources[21], '*.color15: #00000f');
+  });
+});
@@ -0,0 +1,227 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import { ISerializedTheme, VSCodeThemeSerializer } from '../core';
+import { createExtensionRoot, synthesize } from './helpers';
+
+/**
+ * Synthesize and serialize the light test theme with the given token mappings
+ *
+ * @param tokens - Contents of modus-tokens.json
+ * @param settings - Setting values keyed relative to "modus"
+ * @returns Serialized theme
+ */
+async function serializeTheme(
+  tokens: Record<string, unknown>,
+  settings: Record<string, unknown> = {}
+): Promise<ISerializedTheme> {
+  const root = await createExtensionRoot({ 'config/modus-tokens.json': { semantic: {}, textMate: {}, ...tokens } });
+
+  try {
+    return new VSCodeThemeSerializer().serialize((await synthesize(root, settings))['modus-operandi'].theme);
+  } finally {
+    await fs.rm(root, { recursive: true, force: true });
+  }
+}
+
+suite('Token font styles', () => {
+  test('writes normalized font styles next to the colors', async () => {
+    const theme = await serializeTheme({
+      textMate: {
+        comment: { color: 'fg-dim', fontStyle: ' italic  bold italic ' },
+        'markup.bold': { fontStyle: 'bold' },
+        'markup.underline': { color: 'fg-main', fontStyle: 'underline strikethrough' }
+      },
+      semantic: {
+        keyword: { color: 'fg-main', fontStyle: 'bold' },
+        variable: 'fg-main'
+      }
+    });
+
+    assert.deepStrictEqual(theme.tokenColors, [
+      { scope: ['comment'], settings: { foreground: '#808080', fontStyle: 'italic bold' } },
+      { scope: ['markup.bold'], settings: { fontStyle: 'bold' } },
+      { scope: ['markup.underline'], settings: { foreground: '#000000', fontStyle: 'underline strikethrough' } }
+    ]);
+    assert.deepStrictEqual(theme.semanticTokenColors, {
+      keyword: { foreground: '#000000', fontStyle: 'bold' },
+      variable: '#000000'
+    });
+  });
+
+  test('keeps an empty font style that resets inherited styles', async () => {
+    const theme = await serializeTheme({
+      textMate: { 'comment.line': { color: 'fg-main', fontStyle: '' } },
+      semantic: { comment: { fontStyle: '' } }
+    });
+
+    assert.deepStrictEqual(theme.tokenColors, [
+      { scope: ['comment.line'], settings: { foreground: '#000000', fontStyle: '' } }
+    ]);
+    assert.deepStrictEqual(theme.semanticTokenColors, { comment: { fontStyle: '' } });
+  });
+
+  test('drops tokens with unknown font style keywords', async () => {
+    const theme = await serializeTheme({
+      textMate: {
+        comment: { color: 'fg-dim', fontStyle: 'oblique' },
+        string: 'fg-main'
+      }
+    });
+
+    assert.deepStrictEqual(theme.tokenColors, [
+      { scope: ['string'], settings: { foreground: '#000000' } }
+    ]);
+  });
+});
+
+suite('Construct styles', () => {
+  const tokens = {
+    textMate: {
+      keyword: 'fg-main',
+      'keyword.operator': 'fg-main',
+      'meta.tag keyword.control.flow': 'fg-main',
+      'storage.type': { color: 'fg-main', fontStyle: 'underline' },
+      'comment, string - meta.embedded': 'fg-dim'
+    },
+    semantic: {
+      function: { defaultLibrary: 'fg-main', ':rust': 'fg-main' },
+      type: { defaultLibrary: { ':rust': 'fg-main' } }
+    }
+  };
+
+  test('leaves font styles alone when the settings are off', async () => {
+    const theme = await serializeTheme(tokens);
+
+    assert.deepStrictEqual(
+      theme.tokenColors.map(rule => rule.settings.fontStyle),
+      [undefined, undefined, undefined, undefined, 'underline', undefined]
+    );
+    assert.deepStrictEqual(theme.semanticTokenColors, {
+      'function.defaultLibrary': '#000000',
+      'function:rust': '#000000',
+      'type.defaultLibrary:rust': '#000000'
+    });
+  });
+
+  test('adds bold to code constructs and italics to comments', async () => {
+    const theme = await serializeTheme(tokens, { boldConstructs: true, italicConstructs: true });
+
+    assert.deepStrictEqual(theme.tokenColors, [
+      { scope: ['keyword'], settings: { foreground: '#000000', fontStyle: 'bold' } },
+      { scope: ['comment', 'string'], settings: { foreground: '#808080', fontStyle: 'italic' } },
+      { scope: ['string meta.embedded'], settings: { foreground: '#000000', fontStyle: '' } },
+      { scope: ['keyword.operator'], settings: { foreground: '#000000' } },
+      { scope: ['storage.type'], settings: { foreground: '#000000', fontStyle: 'underline bold' } },
+      { scope: ['meta.tag keyword.control.flow'], settings: { foreground: '#000000', fontStyle: 'bold' } }
+    ]);
+    assert.deepStrictEqual(theme.semanticTokenColors, {
+      'function.defaultLibrary': { foreground: '#000000', fontStyle: 'bold' },
+      'function:rust': '#000000',
+      'type.defaultLibrary:rust': { foreground: '#000000', fontStyle: 'bold' }
+    });
+  });
+});
+
+suite('Semantic token selectors', () => {
+  let root: string;
+
+  suiteSetup(async () => {
+    root = await createExtensionRoot({
+      'config/modus-tokens.json': {
+        textMate: {},
+        semantic: {
+          variable: {
+            readonly: { ':rust': 'fg-main', defaultLibrary: 'fg-dim' },
+            ':python': { color: 'fg-main', background: 'bg-main' }
+          },
+          '*': { deprecated: { fontStyle: 'strikethrough' } },
+          'function.async.async': 'fg-dim',
+          'method:rust:go': 'fg-main',
+          'class.': 'fg-main'
+        }
+      }
+    });
+  });
+
+  suiteTeardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('parses nested keys into selectors and drops malformed ones', async () => {
+    const theme = (await synthesize(root))['modus-operandi'].theme;
+
+    assert.deepStrictEqual(
+      theme.tokens.semantic.map(({ type, modifiers, language, selector }) => ({ type, modifiers, language, selector })),
+      [
+        { type: 'variable', modifiers: ['readonly'], language: 'rust', selector: 'variable.readonly:rust' },
+        { type: 'variable', modifiers: ['readonly', 'defaultLibrary'], language: undefined, selector: 'variable.readonly.defaultLibrary' },
+        { type: 'variable', modifiers: [], language: 'python', selector: 'variable:python' },
+        { type: '*', modifiers: ['deprecated'], language: undefined, selector: '*.deprecated' },
+        { type: 'function', modifiers: ['async'], language: undefined, selector: 'function.async' }
+      ]
+    );
+  });
+
+  test('serializes semantic rules by normalized selector without backgrounds', async () => {
+    const theme = new VSCodeThemeSerializer().serialize((await synthesize(root))['modus-operandi'].theme);
+
+    assert.deepStrictEqual(theme.semanticTokenColors, {
+      'variable.readonly:rust': '#000000',
+      'variable.readonly.defaultLibrary': '#808080',
+      'variable:python': '#000000',
+      '*.deprecated': { fontStyle: 'strikethrough' },
+      'function.async': '#808080'
+    });
+  });
+});
+
+suite('TextMate and semantic mappings', () => {
+  test('emits each system only from its own section', async () => {
+    const theme = await serializeTheme({
+      textMate: { 'entity.name.function': 'fg-dim' },
+      semantic: { function: 'fg-main' }
+    });
+
+    assert.deepStrictEqual(theme.tokenColors, [
+      { scope: ['entity.name.function'], settings: { foreground: '#808080' } }
+    ]);
+    assert.deepStrictEqual(theme.semanticTokenColors, { function: '#000000' });
+  });
+
+  test('orders TextMate rules from general to specific', async () => {
+    const theme = await serializeTheme({
+      textMate: {
+        'meta.embedded string.quoted': 'fg-main',
+        'string.quoted': 'fg-dim',
+        'comment, punctuation.definition.comment': 'fg-dim',
+        string: 'fg-main'
+      }
+    });
+
+    assert.deepStrictEqual(theme.tokenColors.map(rule => rule.scope), [
+      ['comment', 'punctuation.definition.comment'],
+      ['string'],
+      ['string.quoted'],
+      ['meta.embedded string.quoted']
+    ]);
+  });
+
+  test('resets excluded scopes to the editor foreground', async () => {
+    const theme = await serializeTheme({
+      textMate: { 'string - meta.embedded - string.regexp': { color: 'fg-dim', fontStyle: 'italic' } }
+    });
+
+    assert.deepStrictEqual(theme.tokenColors, [
+      { scope: ['string'], settings: { foreground: '#808080', fontStyle: 'italic' } },
+      { scope: ['string meta.embedded', 'string string.regexp'], settings: { foreground: '#000000', fontStyle: '' } }
+    ]);
+  });
+
+  test('drops TextMate selectors without a scope', async () => {
+    const theme = await serializeTheme({
+      textMate: { ' , ': 'fg-main', '- string': 'fg-main', comment: 'fg-dim' }
+    });
+
+    assert.deepStrictEqual(theme.tokenColors.map(rule => rule.scope), [['comment']]);
+  });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { TokenSystem } from '../core';
+import { configure, createExtensionRoot, createOrchestrator } from './helpers';
+
+suite('Color usages', () => {
+  let root: string;
+  const bothThemes = ['Modus Operandi', 'Modus Vivendi Tinted'];
+
+  suiteSetup(async () => {
+    root = await createExtensionRoot();
+  });
+
+  suiteTeardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('finds direct, opacity and function references with their locations', async () => {
+    const usages = await createOrchestrator(root).findColorUsages(root, configure(), 'bg-main');
+    const editorFile = path.join(root, 'config', 'modus-editor.json');
+
+    assert.deepStrictEqual(usages, [
+      {
+        file: editorFile,
+        location: { line: 4, column: 25 },
+        target: 'editor.background',
+        property: 'color',
+        reference: 'bg-main',
+        themes: bothThemes
+      },
+      {
+        file: editorFile,
+        location: { line: 6, column: 34 },
+        target: 'editor.selectionBackground',
+        property: 'color',
+        reference: 'bg-main@0.5',
+        themes: bothThemes
+      },
+      {
+        file: path.join(root, 'config', 'modus-tokens.json'),
+        location: { line: 1, column: 59 },
+        target: 'comment',
+        system: TokenSystem.TEXTMATE,
+        property: 'color',
+        reference: 'fg-dim',
+        themes: bothThemes
+      }
+    ]);
+  });
+
+  test('lists only the themes a value resolves through the color in', async () => {
+    const usages = await createOrchestrator(root).findColorUsages(
+      root,
+      configure({ colorOverrides: { '[modus-operandi]': { 'fg-dim': '#777777' } } }),
+      'bg-main'
+    );
+
+    assert.deepStrictEqual(
+      usages.map(usage => [usage.target, usage.themes]),
+      [
+        ['editor.background', bothThemes],
+        ['editor.selectionBackground', bothThemes],
+        ['comment', ['Modus Vivendi Tinted']]
+      ]
+    );
+  });
+});
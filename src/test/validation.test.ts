@@ -0,0 +1,101 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { VSCodeThemeSerializer, VSCodeThemeValidator } from '../core';
+import {
+  configure,
+  createExtensionRoot,
+  createOrchestrator,
+  processingError,
+  synthesize,
+  writeExtensionFile
+} from './helpers';
+
+suite('Theme validation', () => {
+  const validator = new VSCodeThemeValidator();
+
+  test('reports every malformed section', () => {
+    assert.deepStrictEqual(validator.validate([]), ['theme is not an object']);
+    assert.deepStrictEqual(
+      validator.validate({
+        name: '',
+        type: 'hc',
+        colors: { 'editor.background': 'black', 'editor.foreground': '#fff' },
+        tokenColors: [{ scope: 'comment' }, { settings: { foreground: '#12345' } }],
+        semanticTokenColors: { variable: 'red', function: { foreground: '#ff000080' } }
+      }),
+      [
+        'missing "name"',
+        'invalid "type" "hc"',
+        'colors["editor.background"] is not a hex color: "black"',
+        'tokenColors[0] has no "settings"',
+        'tokenColors[1].foreground is not a hex color: "#12345"',
+        'semanticTokenColors["variable"] is not a hex color: "red"'
+      ]
+    );
+  });
+
+  test('accepts every synthesized theme', async () => {
+    const root = await createExtensionRoot();
+    const serializer = new VSCodeThemeSerializer();
+
+    try {
+      for (const synthesis of Object.values(await synthesize(root))) {
+        assert.deepStrictEqual(validator.validate(JSON.parse(JSON.stringify(serializer.serialize(synthesis.theme)))), []);
+      }
+    } finally {
+      await fs.rm(root, { recursive: true, force: true });
+    }
+  });
+});
+
+suite('Last-known-good themes', () => {
+  let root: string;
+  const themesDir = (): string => path.join(root, 'themes');
+  const themeFile = (themeId: string): string => `${themeId}-color-theme.json`;
+
+  setup(async () => {
+    root = await createExtensionRoot();
+  });
+
+  teardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('keeps a copy of every written theme', async () => {
+    await createOrchestrator(root).generateAllThemes(root, configure(), true);
+
+    for (const themeId of ['modus-operandi', 'modus-vivendi-tinted']) {
+      assert.strictEqual(
+        await fs.readFile(path.join(themesDir(), '.last-good', themeFile(themeId)), 'utf8'),
+        await fs.readFile(path.join(themesDir(), themeFile(themeId)), 'utf8')
+      );
+    }
+  });
+
+  test('leaves the previous theme in place when validation fails', async () => {
+    await createOrchestrator(root).generateAllThemes(root, configure(), true);
+    const previous = await fs.readFile(path.join(themesDir(), themeFile('modus-operandi')), 'utf8');
+
+    await writeExtensionFile(root, 'config/modus-editor.json', { 'editor.background': '#12' });
+    await assert.rejects(
+      createOrchestrator(root).generateAllThemes(root, configure(), true),
+      processingError('ORCHESTRATION_ERROR', /modus-operandi failed validation/)
+    );
+    assert.strictEqual(await fs.readFile(path.join(themesDir(), themeFile('modus-operandi')), 'utf8'), previous);
+  });
+
+  test('restores broken themes and skips invalid copies', async () => {
+    await createOrchestrator(root).generateAllThemes(root, configure(), true);
+    const good = await fs.readFile(path.join(themesDir(), themeFile('modus-operandi')), 'utf8');
+
+    await fs.writeFile(path.join(themesDir(), themeFile('modus-operandi')), '{', 'utf8');
+    await fs.writeFile(path.join(themesDir(), themeFile('modus-vivendi-tinted')), '{', 'utf8');
+    await fs.writeFile(path.join(themesDir(), '.last-good', themeFile('modus-vivendi-tinted')), '{"name": ""}', 'utf8');
+
+    assert.deepStrictEqual(await createOrchestrator(root).restoreLastGoodThemes(root), ['modus-operandi']);
+    assert.strictEqual(await fs.readFile(path.join(themesDir(), themeFile('modus-operandi')), 'utf8'), good);
+    assert.strictEqual(await fs.readFile(path.join(themesDir(), themeFile('modus-vivendi-tinted')), 'utf8'), '{');
+    assert.deepStrictEqual(await createOrchestrator(root).restoreLastGoodThemes(root), []);
+  });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import * as fs from 'fs/promises';
+import { IColorPalette, ModusThemeAnalyzer, PaletteSource } from '../core';
+import { configure, createExtensionRoot, createOrchestrator, processingError, synthesize } from './helpers';
+
+suite('Theme-scoped variants', () => {
+  let root: string;
+  const variants = {
+    'modus-operandi': { 'bg-hover': '#eeeeee', 'fg-alt': 'fg-main', 'fg-link': '#0000ff' },
+    'modus-vivendi-tinted': { 'bg-hover': '#222222' }
+  };
+
+  suiteSetup(async () => {
+    root = await createExtensionRoot({
+      'config/modus-editor.json': {
+        'editor.background': 'bg-main',
+        'editor.foreground': 'fg-main',
+        'editor.hoverHighlightBackground': 'bg-hover',
+        'editorGutter.background': 'fg-alt',
+        'textLink.foreground': 'fg-link'
+      },
+      'config/modus-palette.json': { hex: {}, semantic: { 'fg-dim': 'fg-main', 'fg-link': 'fg-main' }, variants }
+    });
+  });
+
+  suiteTeardown(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  test('resolves variant names from the palette theme only', () => {
+    const analyzer = new ModusThemeAnalyzer();
+    const palette = (themeId: string): IColorPalette => ({ hex: { 'fg-main': '#000000' }, semantic: {}, variants, themeId });
+
+    assert.strictEqual(analyzer.resolveColorReference('fg-alt', palette('modus-operandi')), '#000000');
+    assert.throws(
+      () => analyzer.resolveColorReference('fg-alt', palette('modus-vivendi-tinted')),
+      processingError('COLOR_REFERENCE_ERROR', /"fg-alt" not found in palette/)
+    );
+  });
+
+  test('gives each theme its own variant values without borrowing missing ones', async () => {
+    const syntheses = await synthesize(root);
+    const operandi = syntheses['modus-operandi'].theme.colors;
+    const vivendi = syntheses['modus-vivendi-tinted'].theme.colors;
+
+    assert.strictEqual(operandi['editor.hoverHighlightBackground'], '#eeeeee');
+    assert.strictEqual(vivendi['editor.hoverHighlightBackground'], '#222222');
+    assert.strictEqual(operandi['editorGutter.background'], '#000000');
+    assert.strictEqual(vivendi['editorGutter.background'], undefined);
+    assert.strictEqual(operandi['textLink.foreground'], '#0000ff');
+    assert.strictEqual(vivendi['textLink.foreground'], '#ffffff');
+    assert.strictEqual(syntheses['modus-operandi'].palette.origins?.['fg-link'], PaletteSource.VARIANT);
+  });
+
+  test('reports variant keys missing from a theme block with their fallback', async () => {
+    assert.deepStrictEqual(await createOrchestrator(root).findMissingVariantKeys(root, configure()), [
+      { key: 'fg-alt', themeId: 'modus-vivendi-tinted', definedBy: ['modus-operandi'], fallback: undefined },
+      { key: 'fg-link', themeId: 'modus-vivendi-tinted', definedBy: ['modus-operandi'], fallback: PaletteSource.EXTENSION }
+    ]);
+  });
+});